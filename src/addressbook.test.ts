@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { normalizePhoneNumber, parseCsv } from "./addressbook.ts";
+
+describe("normalizePhoneNumber", () => {
+  it("keeps international numbers", () => {
+    assert.equal(normalizePhoneNumber("+44 7700 900123", ""), "447700900123");
+    assert.equal(normalizePhoneNumber("0044 (7700) 900-123", ""), "447700900123");
+    assert.equal(normalizePhoneNumber("tel:+1-415-555-0123", ""), "14155550123");
+  });
+
+  it("drops extensions", () => {
+    assert.equal(normalizePhoneNumber("+1 415 555 0123 ext. 42", ""), "14155550123");
+    assert.equal(normalizePhoneNumber("+1 415 555 0123;ext=42", ""), "14155550123");
+  });
+
+  it("adds the default country code to national numbers", () => {
+    assert.equal(normalizePhoneNumber("07700 900123", "44"), "447700900123");
+    assert.equal(normalizePhoneNumber("415 555 0123", "1"), "14155550123");
+  });
+
+  it("rejects numbers without + or 00 when there is no default country code", () => {
+    assert.equal(normalizePhoneNumber("07700 900123", ""), null);
+    assert.equal(normalizePhoneNumber("(415) 555-0123", ""), null);
+    assert.equal(normalizePhoneNumber("447700900123", ""), null);
+  });
+
+  it("reads long numbers without + as international when there is a default country code", () => {
+    assert.equal(normalizePhoneNumber("447700900123", "1"), "447700900123");
+  });
+
+  it("rejects numbers of impossible length", () => {
+    assert.equal(normalizePhoneNumber("+44 123", ""), null);
+    assert.equal(normalizePhoneNumber("+1234567890123456", ""), null);
+    assert.equal(normalizePhoneNumber("", "44"), null);
+  });
+});
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    assert.deepEqual(parseCsv("Name,Phone\r\nAlice,+44 7700 900123\nBob,\n"), [
+      ["Name", "Phone"],
+      ["Alice", "+44 7700 900123"],
+      ["Bob", ""],
+    ]);
+  });
+
+  it("unquotes fields with commas, quotes and newlines", () => {
+    assert.deepEqual(parseCsv('"Doe, Jane","She said ""hi""","line one\nline two"'), [
+      ["Doe, Jane", 'She said "hi"', "line one\nline two"],
+    ]);
+  });
+
+  it("skips blank rows", () => {
+    assert.deepEqual(parseCsv("a,b\n\n , \nc,d"), [["a", "b"], ["c", "d"]]);
+  });
+});
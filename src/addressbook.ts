@@ -0,0 +1,196 @@
+import path from "node:path";
+import fs from "node:fs";
+
+import { getKnownWhatsAppJids, storeContacts } from "./database.ts";
+import { type VCardContact, parseVCards } from "./vcard.ts";
+
+// Country code for numbers written without one, e.g. "44"; unset means every
+// number must already be international
+export const DEFAULT_COUNTRY_CODE = (process.env.CONTACTS_DEFAULT_COUNTRY_CODE ?? "").replace(/\D/g, "");
+
+export type ImportedNumber = { name: string; phone: string; jid: string };
+
+export type AddressBookImport = {
+  /** Entries read from the file. */
+  contacts: number;
+  /** Unique numbers written to the contacts table. */
+  imported: ImportedNumber[];
+  /** The imported numbers WhatsApp already knows about (chats, groups, synced contacts). */
+  matched: ImportedNumber[];
+  /** Numbers skipped because an earlier, differently named entry had them. */
+  duplicates: number;
+  /** Values that couldn't be turned into an international number. */
+  invalid: { name: string; value: string }[];
+};
+
+/**
+ * Normalizes a phone number to E.164 digits (no "+"). Numbers starting with
+ * "+" or "00" are international. Otherwise, with a default country code, a
+ * leading trunk "0" or a length of ten digits or fewer marks a national
+ * number, which gets the country code; without one, any other number is
+ * rejected. Returns null when no valid international number results.
+ */
+export function normalizePhoneNumber(
+  raw: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE,
+): string | null {
+  // Drop "tel:" URIs and extensions
+  const value = raw.trim().replace(/^tel:/i, "").split(/\s*(?:;\s*ext=|;|#|ext\.?|x)\s*\d*$/i)[0];
+  let digits = value.replace(/\D/g, "");
+  if (value.startsWith("+")) {
+    // already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (!defaultCountryCode) {
+    return null;
+  } else if (digits.startsWith("0") || digits.length <= 10) {
+    digits = defaultCountryCode + digits.replace(/^0/, "");
+  }
+  return digits.length >= 8 && digits.length <= 15 ? digits : null;
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Maps a Google or Outlook export row (header → value) to a contact. Every
+ * column whose header mentions a phone is read; Google packs several numbers
+ * into one cell separated by " ::: ".
+ */
+function rowToContact(row: Record<string, unknown>): VCardContact | null {
+  const cells = new Map(
+    Object.entries(row).map(([header, value]) => [header.trim().toLowerCase(), String(value ?? "").trim()]),
+  );
+  const cell = (...headers: string[]) => headers.map((header) => cells.get(header)).find(Boolean) ?? "";
+
+  const phones = [...cells]
+    .filter(([header, value]) => value && /phone|mobile/.test(header) && !/label|type/.test(header))
+    .flatMap(([, value]) => value.split(":::").map((phone) => phone.trim()))
+    .filter(Boolean);
+  if (!phones.length) return null;
+
+  const name =
+    cell("display name", "name", "full name", "file as") ||
+    [
+      cell("first name", "given name"),
+      cell("middle name", "additional name"),
+      cell("last name", "family name"),
+    ]
+      .filter(Boolean)
+      .join(" ") ||
+    cell("organization name", "organization 1 - name", "company") ||
+    phones[0];
+  return { display_name: name, phone_numbers: phones };
+}
+
+/**
+ * Reads an address book export: vCard (.vcf), Google or Outlook CSV (.csv),
+ * or a JSON array of CSV-style rows such as the old contacts.json. Phone
+ * numbers are returned as written.
+ */
+export function readAddressBook(filePath: string): VCardContact[] {
+  const extension = path.extname(filePath).toLowerCase();
+  if (![".vcf", ".vcard", ".csv", ".json"].includes(extension)) {
+    throw new Error(`Unsupported address book format "${path.extname(filePath)}"; use .vcf, .csv or .json`);
+  }
+  if (!fs.statSync(filePath).isFile()) throw new Error(`${path.basename(filePath)} is not a regular file`);
+  const text = fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, "");
+  switch (extension) {
+    case ".vcf":
+    case ".vcard":
+      return parseVCards(text, { rawNumbers: true });
+    case ".csv": {
+      const [headers = [], ...rows] = parseCsv(text);
+      return rows
+        .map((cells) => rowToContact(Object.fromEntries(headers.map((header, i) => [header, cells[i]]))))
+        .filter((contact): contact is VCardContact => contact !== null);
+    }
+    case ".json": {
+      const rows = JSON.parse(text);
+      if (!Array.isArray(rows)) throw new Error("Expected a JSON array of contact rows");
+      return rows.map(rowToContact).filter((contact): contact is VCardContact => contact !== null);
+    }
+    default:
+      throw new Error(`Unsupported address book format "${path.extname(filePath)}"; use .vcf, .csv or .json`);
+  }
+}
+
+/**
+ * Imports an address book export into the contacts table as saved names.
+ * Numbers are normalized to E.164 and deduplicated across the whole file; the
+ * first entry with a number wins.
+ */
+export function importAddressBook(
+  filePath: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE,
+): AddressBookImport {
+  const entries = readAddressBook(filePath);
+  const byPhone = new Map<string, ImportedNumber>();
+  const invalid: AddressBookImport["invalid"] = [];
+  let duplicates = 0;
+
+  for (const entry of entries) {
+    for (const raw of entry.phone_numbers) {
+      const phone = normalizePhoneNumber(raw, defaultCountryCode);
+      if (!phone) {
+        invalid.push({ name: entry.display_name, value: raw });
+      } else if (byPhone.has(phone)) {
+        if (byPhone.get(phone)!.name !== entry.display_name) duplicates++;
+      } else {
+        byPhone.set(phone, { name: entry.display_name, phone, jid: `${phone}@s.whatsapp.net` });
+      }
+    }
+  }
+
+  const imported = [...byPhone.values()];
+  // Checked before storing, so numbers only this import knows about don't count
+  const known = getKnownWhatsAppJids(imported.map((number) => number.jid));
+  storeContacts(
+    imported.map(({ name, phone, jid }) => ({ jid, name, phone })),
+    "import",
+  );
+
+  return {
+    contacts: entries.length,
+    imported,
+    matched: imported.filter((number) => known.has(number.jid)),
+    duplicates,
+    invalid,
+  };
+}
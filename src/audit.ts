@@ -0,0 +1,62 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+import { type AuditEntry, type OutboxPayload } from "./database.ts";
+
+// Characters of message text kept in the audit log; 0 stores only the hash
+const PREVIEW_CHARS = Number(process.env.AUDIT_PREVIEW_CHARS ?? 80);
+
+type AuditContent = Pick<AuditEntry, "content_preview" | "content_sha256">;
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function preview(text: string): string | null {
+  if (PREVIEW_CHARS <= 0) return null;
+  return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text;
+}
+
+/**
+ * Preview and SHA-256 of outgoing content. For media the hash is of the file
+ * itself, so it can be matched against a copy later.
+ */
+export function summarizePayload(payload: OutboxPayload): AuditContent {
+  switch (payload.kind) {
+    case "text":
+    case "reply":
+      return { content_preview: preview(payload.text), content_sha256: sha256(payload.text) };
+    case "reaction":
+      return { content_preview: payload.emoji || "(reaction removed)", content_sha256: null };
+    case "media": {
+      let fileHash: string | null = null;
+      try {
+        fileHash = sha256(fs.readFileSync(payload.media_path));
+      } catch {
+        // Missing files are reported by the send itself
+      }
+      const label = `[${payload.media_type}: ${path.basename(payload.media_path)}]`;
+      return {
+        content_preview: preview(payload.caption ? `${label} ${payload.caption}` : label),
+        content_sha256: fileHash,
+      };
+    }
+    case "location": {
+      const label = [payload.name, payload.address].filter(Boolean).join(", ");
+      const text = `${payload.latitude},${payload.longitude}${label ? ` ${label}` : ""}`;
+      return { content_preview: preview(`[Location] ${text}`), content_sha256: sha256(text) };
+    }
+    case "contacts": {
+      const names = payload.contacts.map((contact) => contact.display_name).join(", ");
+      return {
+        content_preview: preview(`[Contacts] ${names}`),
+        content_sha256: sha256(payload.contacts.map((contact) => contact.vcard).join("\n")),
+      };
+    }
+    case "poll": {
+      const text = `${payload.question}\n${payload.options.join("\n")}`;
+      return { content_preview: preview(`[Poll] ${payload.question}`), content_sha256: sha256(text) };
+    }
+  }
+}
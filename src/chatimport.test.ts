@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseExportText, detectDateOrder } from "./chatimport.ts";
+
+describe("parseExportText", () => {
+  it("reads Android lines and joins multi-line messages", () => {
+    const messages = parseExportText(
+      "\uFEFF31/12/2023, 21:41 - Messages and calls are end-to-end encrypted.\r\n" +
+        "31/12/2023, 21:41 - Alice: Happy new year\r\n" +
+        "see you tomorrow\r\n" +
+        "01/01/2024, 09:05 - ~ Bob: Same to you: cheers\r\n\r\n",
+    );
+    assert.deepEqual(
+      messages.map(({ stamp, date, hours, minutes, seconds, sender, text }) => ({
+        stamp, date, hours, minutes, seconds, sender, text,
+      })),
+      [
+        {
+          stamp: "31/12/2023, 21:41 -",
+          date: [31, 12, 2023],
+          hours: 21,
+          minutes: 41,
+          seconds: null,
+          sender: null,
+          text: "Messages and calls are end-to-end encrypted.",
+        },
+        {
+          stamp: "31/12/2023, 21:41 -",
+          date: [31, 12, 2023],
+          hours: 21,
+          minutes: 41,
+          seconds: null,
+          sender: "Alice",
+          text: "Happy new year\nsee you tomorrow",
+        },
+        {
+          stamp: "01/01/2024, 09:05 -",
+          date: [1, 1, 2024],
+          hours: 9,
+          minutes: 5,
+          seconds: null,
+          sender: "~ Bob",
+          text: "Same to you: cheers",
+        },
+      ],
+    );
+  });
+
+  it("reads iOS lines with seconds, 12-hour times and direction marks", () => {
+    const [message, attachment] = parseExportText(
+      "[1/2/24, 9:05:07 PM] Alice: hi\n" +
+        "\u200e[1/2/24, 9:06:00 PM] Alice: \u200e<attached: 00000012-PHOTO-2024-01-02.jpg>\n",
+    );
+    assert.deepEqual(
+      [message.date, message.hours, message.minutes, message.seconds, message.text, message.marked],
+      [[1, 2, 24], 21, 5, 7, "hi", false],
+    );
+    assert.equal(attachment.text, "<attached: 00000012-PHOTO-2024-01-02.jpg>");
+    assert.equal(attachment.marked, true);
+  });
+
+  it("reads 12 AM as midnight", () => {
+    assert.equal(parseExportText("1/2/24, 12:30 am - Alice: late")[0].hours, 0);
+  });
+
+  it("returns nothing for text that isn't an export", () => {
+    assert.deepEqual(parseExportText("just some notes\nwithout timestamps\n"), []);
+  });
+});
+
+describe("detectDateOrder", () => {
+  const order = (...lines: string[]) => detectDateOrder(parseExportText(lines.join("\n")));
+
+  it("spots day-first dates", () => {
+    assert.equal(order("01/02/2024, 10:00 - A: x", "13/02/2024, 10:00 - A: y"), "DMY");
+  });
+
+  it("spots month-first dates", () => {
+    assert.equal(order("02/01/2024, 10:00 - A: x", "02/13/2024, 10:00 - A: y"), "MDY");
+  });
+
+  it("spots year-first dates", () => {
+    assert.equal(order("2024-02-01, 10:00 - A: x"), "YMD");
+  });
+
+  it("falls back to day-first when every date is ambiguous", () => {
+    assert.equal(order("01/02/24, 10:00 - A: x", "03/04/24, 10:00 - A: y"), "DMY");
+  });
+});
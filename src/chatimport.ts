@@ -0,0 +1,477 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import buffer from "node:buffer";
+
+import {
+  type Message,
+  type MediaType,
+  type MessageMedia,
+  type SharedContact,
+  storeMessage,
+  markMessageDeleted,
+  setMediaCachePath,
+  getMessagesInRange,
+  findContactJidsByName,
+  getContact,
+  getGroup,
+  getChat,
+  storeChat,
+  initChatReadMarker,
+  transaction,
+} from "./database.ts";
+import { parseVCards } from "./vcard.ts";
+import { readZip, type ZipEntry } from "./zip.ts";
+
+// Attachments from imported archives. Kept out of data/media/ so cache
+// eviction never deletes them: they can't be downloaded again.
+const IMPORTED_MEDIA_DIR = path.join(import.meta.dirname, "..", "data", "imported-media");
+const MB = 1024 * 1024;
+// Exports are read whole: fs.readFileSync stops at 2 GiB, and a string at
+// buffer.constants.MAX_STRING_LENGTH
+const MAX_ARCHIVE_BYTES = 2 ** 31 - 1;
+
+// Prefix of the IDs given to imported messages; WhatsApp's own IDs never have it
+export const IMPORTED_ID_PREFIX = "import-";
+
+export const DATE_ORDERS = ["DMY", "MDY", "YMD"] as const;
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+export type ChatImportOptions = {
+  /** The name the exporting account appears under; inferred for individual chats. */
+  selfName?: string | null;
+  /** Sender name → JID or phone number, for names no contact matches. */
+  senderMap?: Record<string, string>;
+  /** Order of day, month and year in the dates; detected from the file when omitted. */
+  dateOrder?: DateOrder | null;
+};
+
+export type ImportedSender = {
+  name: string;
+  jid: string | null;
+  is_self: boolean;
+  messages: number;
+};
+
+export type ChatImportResult = {
+  /** Messages parsed from the export, not counting system notices. */
+  messages: number;
+  /** Messages written (new, or updated by a repeated import). */
+  imported: number;
+  /** Messages skipped because history sync already stored them. */
+  duplicates: number;
+  system_messages: number;
+  /** Attachments copied out of the archive. */
+  media_files: number;
+  /** Attachments the export omitted or the archive doesn't contain. */
+  missing_media: number;
+  date_order: DateOrder;
+  first_message_at: Date | null;
+  last_message_at: Date | null;
+  senders: ImportedSender[];
+};
+
+export type RawMessage = {
+  /** Date and time exactly as written, part of the stable ID. */
+  stamp: string;
+  date: [number, number, number];
+  hours: number;
+  minutes: number;
+  seconds: number | null;
+  sender: string | null;
+  text: string;
+  /** iOS starts system notices and attachments with a left-to-right mark. */
+  marked: boolean;
+};
+
+const MEDIA_EXTENSIONS: Record<string, { type: MediaType; mimetype: string }> = {
+  jpg: { type: "image", mimetype: "image/jpeg" },
+  jpeg: { type: "image", mimetype: "image/jpeg" },
+  png: { type: "image", mimetype: "image/png" },
+  heic: { type: "image", mimetype: "image/heic" },
+  gif: { type: "video", mimetype: "image/gif" },
+  mp4: { type: "video", mimetype: "video/mp4" },
+  mov: { type: "video", mimetype: "video/quicktime" },
+  "3gp": { type: "video", mimetype: "video/3gpp" },
+  opus: { type: "audio", mimetype: "audio/ogg; codecs=opus" },
+  ogg: { type: "audio", mimetype: "audio/ogg" },
+  m4a: { type: "audio", mimetype: "audio/mp4" },
+  mp3: { type: "audio", mimetype: "audio/mpeg" },
+  aac: { type: "audio", mimetype: "audio/aac" },
+  webp: { type: "sticker", mimetype: "image/webp" },
+  pdf: { type: "document", mimetype: "application/pdf" },
+};
+
+// Placeholders WhatsApp writes when media is exported without the files
+const OMITTED_MEDIA_TYPES: Record<string, MediaType> = {
+  image: "image",
+  video: "video",
+  gif: "video",
+  audio: "audio",
+  sticker: "sticker",
+  document: "document",
+};
+
+// Same labels extractTextContent in whatsapp.ts stores, so duplicates match
+const MEDIA_LABELS: Record<MediaType, string> = {
+  image: "[Image]",
+  video: "[Video]",
+  document: "[Document]",
+  audio: "[Audio]",
+  sticker: "[Sticker]",
+};
+
+const DATE = String.raw`(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})`;
+const TIME = String.raw`(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*([AaPp])\.?\s?[Mm]\.?)?`;
+// iOS: "[31/12/2024, 21:41:05] Name: text"; Android: "31/12/2024, 21:41 - Name: text"
+const IOS_HEADER = new RegExp(String.raw`^\[${DATE},?\s+${TIME}\]\s*(.*)$`);
+const ANDROID_HEADER = new RegExp(String.raw`^${DATE},?\s+${TIME}\s+[-–]\s+(.*)$`);
+
+// Notices WhatsApp writes as if someone sent them, e.g. "Group: Alice added Bob"
+function isSystemNotice(message: RawMessage): boolean {
+  if (message.sender === null) return true;
+  if (/^Messages and calls are end-to-end encrypted/.test(message.text)) return true;
+  return (
+    message.marked &&
+    !/^(<attached: .+>|.+ omitted|This message was deleted\.?|You deleted this message\.?)$/i.test(message.text.split("\n")[0])
+  );
+}
+
+// Bidirectional marks that iOS exports put around names and attachments
+const BIDI_MARKS = /[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+export function parseExportText(text: string): RawMessage[] {
+  const messages: RawMessage[] = [];
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.replace(BIDI_MARKS, "").replace(/[\u202f\u00a0]/g, " ");
+    const match = IOS_HEADER.exec(line) ?? ANDROID_HEADER.exec(line);
+    const last = messages[messages.length - 1];
+    if (!match) {
+      // Continuation of a multi-line message
+      if (last) last.text += `\n${line}`;
+      continue;
+    }
+    if (last) last.text = last.text.trimEnd();
+    const [, d1, d2, d3, h, min, sec, ampm, rest] = match;
+    let hours = Number(h);
+    if (ampm) hours = (hours % 12) + (/p/i.test(ampm) ? 12 : 0);
+    const separator = rest.indexOf(": ");
+    const rawSeparator = rawLine.indexOf(": ");
+    messages.push({
+      stamp: line.slice(0, line.length - rest.length).trim(),
+      date: [Number(d1), Number(d2), Number(d3)],
+      hours,
+      minutes: Number(min),
+      seconds: sec ? Number(sec) : null,
+      sender: separator > 0 ? rest.slice(0, separator) : null,
+      text: separator > 0 ? rest.slice(separator + 2) : rest,
+      marked: rawSeparator > 0 && rawLine.charAt(rawSeparator + 2) === "\u200e",
+    });
+  }
+  if (messages.length) messages[messages.length - 1].text = messages[messages.length - 1].text.trimEnd();
+  return messages;
+}
+
+export function detectDateOrder(messages: RawMessage[]): DateOrder {
+  if (messages.some((message) => message.date[0] > 31)) return "YMD";
+  if (messages.some((message) => message.date[0] > 12)) return "DMY";
+  if (messages.some((message) => message.date[1] > 12)) return "MDY";
+  return "DMY";
+}
+
+// Export times are the phone's local time; they are read as the server's
+function toTimestamp(message: RawMessage, order: DateOrder): Date {
+  const [a, b, c] = message.date;
+  const [year, month, day] = order === "YMD" ? [a, b, c] : order === "DMY" ? [c, b, a] : [c, a, b];
+  return new Date(
+    year < 100 ? 2000 + year : year,
+    month - 1,
+    day,
+    message.hours,
+    message.minutes,
+    message.seconds ?? 0,
+  );
+}
+
+function cleanSenderName(name: string): string {
+  // Non-contacts in groups are shown as "~ Name"
+  return name.replace(/^~\s*/, "").trim();
+}
+
+function toJid(value: string): string {
+  return value.includes("@") ? value : `${value.replace(/\D/g, "")}@s.whatsapp.net`;
+}
+
+/**
+ * Maps each sender name to a JID. In individual chats everyone but the
+ * exporting account is the chat itself; in groups names are matched against
+ * contacts, preferring current members when several contacts share a name.
+ */
+function resolveSenders(
+  chatJid: string,
+  names: string[],
+  options: ChatImportOptions,
+): Map<string, { jid: string | null; is_self: boolean }> {
+  const isGroup = chatJid.endsWith("@g.us");
+  const senderMap = new Map(
+    Object.entries(options.senderMap ?? {}).map(([name, value]) => [cleanSenderName(name).toLowerCase(), value]),
+  );
+  const lookup = (name: string): string | null => {
+    const mapped = senderMap.get(name.toLowerCase());
+    if (mapped) return toJid(mapped);
+    if (/^\+?[\d\s\-()]{7,}$/.test(name)) return toJid(name);
+    const candidates = findContactJidsByName(name);
+    if (candidates.length <= 1) return candidates[0] ?? null;
+    const members = new Set(
+      (getGroup(chatJid)?.participants ?? []).flatMap((member) => [member.jid, member.lid, member.phone_number]),
+    );
+    const inGroup = candidates.filter((jid) => members.has(jid) || members.has(getContact(jid)?.lid ?? null));
+    return inGroup.length === 1 ? inGroup[0] : null;
+  };
+
+  let selfName = options.selfName ? cleanSenderName(options.selfName).toLowerCase() : null;
+  if (!selfName && !isGroup) {
+    const contact = getContact(chatJid);
+    const theirNames = [contact?.name, contact?.notify, contact?.verified_name]
+      .filter(Boolean)
+      .map((name) => name!.toLowerCase());
+    const isThem = (name: string) => theirNames.includes(name.toLowerCase()) || lookup(name) === chatJid;
+    const others = names.filter((name) => !isThem(name));
+    if (others.length > 1 || (others.length === 1 && names.length === 1)) {
+      throw new Error(
+        `Can't tell which sender is you; pass self_name (senders: ${names.map((name) => `"${name}"`).join(", ")})`,
+      );
+    }
+    selfName = others[0]?.toLowerCase() ?? null;
+  }
+
+  return new Map(
+    names.map((name) => [
+      name,
+      name.toLowerCase() === selfName
+        ? { jid: null, is_self: true }
+        : { jid: isGroup ? lookup(name) : chatJid, is_self: false },
+    ]),
+  );
+}
+
+function mediaFor(fileName: string): { type: MediaType; mimetype: string | null } {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return MEDIA_EXTENSIONS[extension] ?? { type: "document", mimetype: null };
+}
+
+// Copies an attachment into the imported-media store, named by its SHA-256
+function saveAttachment(entry: ZipEntry): { path: string; sha256: Buffer; size: number } {
+  const data = entry.read();
+  const sha256 = crypto.createHash("sha256").update(data).digest();
+  const filePath = path.join(
+    IMPORTED_MEDIA_DIR,
+    `${sha256.toString("hex")}${path.extname(entry.name).toLowerCase()}`,
+  );
+  fs.mkdirSync(IMPORTED_MEDIA_DIR, { recursive: true });
+  if (!fs.existsSync(filePath)) fs.writeFileSync(filePath, data);
+  return { path: filePath, sha256, size: data.length };
+}
+
+type ParsedBody = {
+  content: string;
+  deleted: boolean;
+  media?: MessageMedia;
+  attachment?: ZipEntry;
+  /** The export referenced media it didn't include. */
+  missing_media: boolean;
+  location?: Message["location"];
+  contacts?: SharedContact[];
+};
+
+/** Turns an exported message body into what history sync would have stored. */
+function parseBody(text: string, attachments: Map<string, ZipEntry>): ParsedBody {
+  const body = text.replace(/\s*<This message was edited>$/, "");
+  if (/^(This message was deleted|You deleted this message)\.?$/.test(body)) {
+    return { content: body, deleted: true, missing_media: false };
+  }
+
+  const [first, ...restLines] = body.split("\n");
+  const caption = restLines.join("\n").trim();
+  const fileName = /^(.+?) \(file attached\)$/.exec(first)?.[1] ?? /^<attached: (.+?)>$/.exec(first)?.[1];
+  if (fileName) {
+    const attachment = attachments.get(fileName);
+    if (path.extname(fileName).toLowerCase() === ".vcf") {
+      const cards = attachment ? parseVCards(attachment.read().toString("utf8")) : [];
+      const contacts = cards.length
+        ? cards.map((card) => ({ ...card, vcard: null }))
+        : [{ display_name: path.basename(fileName, ".vcf"), phone_numbers: [], vcard: null }];
+      const names = contacts.map((contact) => contact.display_name).join(", ");
+      return {
+        content: `${contacts.length > 1 ? "[Contacts]" : "[Contact]"} ${names}`.trim(),
+        deleted: false,
+        contacts,
+        missing_media: !attachment,
+      };
+    }
+    const { type, mimetype } = mediaFor(fileName);
+    return {
+      content: `${MEDIA_LABELS[type]} ${type === "document" ? caption || fileName : type === "audio" || type === "sticker" ? "" : caption}`.trim(),
+      deleted: false,
+      media: { media_type: type, mimetype, file_name: type === "document" ? fileName : null },
+      attachment,
+      missing_media: !attachment,
+    };
+  }
+
+  const omitted = /^(?:<Media omitted>|(image|video|GIF|audio|sticker|document) omitted)$/i.exec(first);
+  if (omitted) {
+    const type = omitted[1] ? OMITTED_MEDIA_TYPES[omitted[1].toLowerCase()] : null;
+    return type
+      ? { content: MEDIA_LABELS[type], deleted: false, media: { media_type: type }, missing_media: true }
+      : { content: "<Media omitted>", deleted: false, missing_media: true };
+  }
+
+  const location = /^location: (https?:\/\/\S*?[?&]q=(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)\S*)$/.exec(body);
+  if (location) {
+    return {
+      content: "[Location]",
+      deleted: false,
+      location: { latitude: Number(location[2]), longitude: Number(location[3]), url: location[1] },
+      missing_media: false,
+    };
+  }
+  return { content: body, deleted: false, missing_media: false };
+}
+
+// An already-synced copy: same direction and content, stored within the
+// precision of the export's timestamp (a minute, or a second on iOS)
+function isAlreadySynced(chatJid: string, timestamp: Date, precisionMs: number, isFromMe: boolean, body: ParsedBody): boolean {
+  const candidates = getMessagesInRange(chatJid, timestamp, new Date(timestamp.getTime() + precisionMs), 50);
+  return candidates.some(
+    (message) =>
+      !message.id.startsWith(IMPORTED_ID_PREFIX) &&
+      message.is_from_me === isFromMe &&
+      (message.content.trim() === body.content.trim() ||
+        (body.content === "<Media omitted>" && Boolean(message.media)) ||
+        (body.deleted && Boolean(message.deleted_at))),
+  );
+}
+
+function readExport(filePath: string): { text: string; attachments: Map<string, ZipEntry> } {
+  const isZip = path.extname(filePath).toLowerCase() === ".zip";
+  const maxBytes = isZip ? MAX_ARCHIVE_BYTES : buffer.constants.MAX_STRING_LENGTH;
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) throw new Error(`${path.basename(filePath)} is not a regular file`);
+  const { size } = stat;
+  if (size > maxBytes) {
+    throw new Error(
+      `${path.basename(filePath)} is ${(size / MB).toFixed(1)} MB; exports over ${Math.floor(maxBytes / MB)} MB can't be imported. ` +
+        "Export the chat without media instead.",
+    );
+  }
+  if (!isZip) {
+    return { text: fs.readFileSync(filePath, "utf8"), attachments: new Map() };
+  }
+  const entries = readZip(fs.readFileSync(filePath));
+  const chat =
+    entries.find((entry) => path.basename(entry.name) === "_chat.txt") ??
+    entries.find((entry) => entry.name.toLowerCase().endsWith(".txt"));
+  if (!chat) throw new Error("The archive contains no chat .txt file");
+  return {
+    text: chat.read().toString("utf8"),
+    attachments: new Map(
+      entries.filter((entry) => entry !== chat).map((entry) => [path.basename(entry.name), entry]),
+    ),
+  };
+}
+
+/**
+ * Imports a WhatsApp "Export chat" file (.txt, or .zip with media) into
+ * `chatJid`. Messages get stable IDs derived from their content, so importing
+ * the same or an overlapping export again updates rather than duplicates.
+ * Messages history sync already stored are skipped.
+ */
+export function importChatExport(
+  filePath: string,
+  chatJid: string,
+  options: ChatImportOptions = {},
+): ChatImportResult {
+  const { text, attachments } = readExport(filePath);
+  const parsed = parseExportText(text);
+  if (!parsed.length) {
+    throw new Error("No messages found; is this a WhatsApp chat export?");
+  }
+  const dateOrder = options.dateOrder ?? detectDateOrder(parsed);
+  const userMessages = parsed.filter((message) => !isSystemNotice(message));
+  const names = [...new Set(userMessages.map((message) => cleanSenderName(message.sender!)))];
+  const senders = resolveSenders(chatJid, names, options);
+
+  const result: ChatImportResult = {
+    messages: userMessages.length,
+    imported: 0,
+    duplicates: 0,
+    system_messages: parsed.length - userMessages.length,
+    media_files: 0,
+    missing_media: 0,
+    date_order: dateOrder,
+    first_message_at: null,
+    last_message_at: null,
+    senders: names.map((name) => ({ name, ...senders.get(name)!, messages: 0 })),
+  };
+  const occurrences = new Map<string, number>();
+
+  // All or nothing, and far faster than a commit per message
+  transaction(() => {
+    for (const raw of userMessages) {
+      const name = cleanSenderName(raw.sender!);
+      const sender = senders.get(name)!;
+      const timestamp = toTimestamp(raw, dateOrder);
+      if (isNaN(timestamp.getTime())) continue;
+      result.senders.find((entry) => entry.name === name)!.messages++;
+      result.first_message_at ??= timestamp;
+      result.last_message_at = timestamp;
+
+      const key = `${raw.stamp}\u0000${raw.sender}\u0000${raw.text}`;
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      const id =
+        IMPORTED_ID_PREFIX +
+        crypto.createHash("sha256").update(`${chatJid}\u0000${key}\u0000${occurrence}`).digest("hex").slice(0, 24);
+
+      const body = parseBody(raw.text, attachments);
+      if (body.missing_media) result.missing_media++;
+      if (isAlreadySynced(chatJid, timestamp, raw.seconds === null ? 60_000 : 1_000, sender.is_self, body)) {
+        result.duplicates++;
+        continue;
+      }
+
+      let saved: ReturnType<typeof saveAttachment> | null = null;
+      if (body.media && body.attachment) {
+        saved = saveAttachment(body.attachment);
+        body.media.file_length = saved.size;
+        body.media.file_sha256 = saved.sha256.toString("base64");
+        result.media_files++;
+      }
+      storeMessage({
+        id,
+        chat_jid: chatJid,
+        sender: sender.jid,
+        content: body.content,
+        timestamp,
+        is_from_me: sender.is_self,
+        media: body.media ?? null,
+        location: body.location ?? null,
+        contacts: body.contacts ?? null,
+      });
+      if (saved) setMediaCachePath(id, chatJid, saved.path);
+      if (body.deleted) markMessageDeleted(id, chatJid, timestamp);
+      result.imported++;
+    }
+  });
+
+  // Make sure the chat is listed, without moving its last activity backwards
+  const chat = getChat(chatJid, false);
+  const last = result.last_message_at;
+  if (!chat || (last && (!chat.last_message_time || chat.last_message_time < last))) {
+    storeChat({ jid: chatJid, last_message_time: last });
+  }
+  // Imported history is old news: a chat without a marker is read up to it
+  if (last) initChatReadMarker(chatJid, last);
+  return result;
+}
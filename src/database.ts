@@ -1,9 +1,19 @@
 import { DatabaseSync } from "node:sqlite";
 import path from "node:path";
 import fs from "node:fs";
+import {
+  type Migration,
+  type SchemaStatus,
+  getSchemaStatus,
+  getUserVersion,
+  runMigrations,
+} from "./migrations.ts";
 
 const DATA_DIR = path.join(import.meta.dirname, "..", "data");
 const DB_PATH = path.join(DATA_DIR, "whatsapp.db");
+const BACKUP_DIR = path.join(DATA_DIR, "backups");
+// The only place MCP clients can import files from; the CLI takes any path
+const IMPORT_DIR = path.join(DATA_DIR, "imports");
 
 export interface Chat {
   jid: string;
@@ -12,8 +22,95 @@ export interface Chat {
   last_message?: string | null;
   last_sender?: string | null;
   last_is_from_me?: boolean | null;
+  /** Unread messages as WhatsApp counts them. */
+  unread_count?: number;
+  /** Messages after this time are unread; null when none have been read. */
+  last_read_at?: Date | null;
+  /** Set while notifications are muted; MUTED_FOREVER for "always". */
+  muted_until?: Date | null;
 }
 
+export const MUTED_FOREVER = new Date("9999-12-31T23:59:59.999Z");
+
+// Fields of a contact whose origin is tracked in `sources`
+const CONTACT_FIELDS = ["name", "notify", "verified_name", "phone", "lid"] as const;
+type ContactField = (typeof CONTACT_FIELDS)[number];
+
+export type Contact = {
+  jid: string;
+  /** Name saved in the phone's address book. */
+  name?: string | null;
+  /** Push name the contact chose for themselves. */
+  notify?: string | null;
+  verified_name?: string | null;
+  /** Digits only, e.g. "14155550123". */
+  phone?: string | null;
+  lid?: string | null;
+  /** Where each field's current value came from, e.g. { name: "contacts.upsert" }. */
+  sources?: Partial<Record<ContactField, string>>;
+  updated_at?: Date;
+};
+
+export type GroupMember = {
+  /** As WhatsApp reports it: a phone-number JID or, in LID groups, a LID. */
+  jid: string;
+  lid?: string | null;
+  phone_number?: string | null;
+  admin?: "admin" | "superadmin" | null;
+};
+
+export type Group = {
+  jid: string;
+  subject?: string | null;
+  owner?: string | null;
+  description?: string | null;
+  created_at?: Date | null;
+  /** Only admins can send messages. */
+  announce?: boolean;
+  /** Only admins can edit the group info. */
+  restrict?: boolean;
+  is_community?: boolean;
+  linked_parent?: string | null;
+  addressing_mode?: string | null;
+  ephemeral_duration?: number | null;
+  updated_at?: Date;
+  participants?: GroupMember[];
+};
+
+export type MediaType = "image" | "video" | "document" | "audio" | "sticker";
+
+/** Everything needed to fetch and decrypt a message's attachment later. */
+export type MessageMedia = {
+  media_type: MediaType;
+  mimetype?: string | null;
+  file_name?: string | null;
+  file_length?: number | null;
+  url?: string | null;
+  direct_path?: string | null;
+  media_key?: string | null;
+  file_sha256?: string | null;
+  file_enc_sha256?: string | null;
+  media_key_timestamp?: number | null;
+  cache_path?: string | null;
+};
+
+export type MessageLocation = {
+  latitude: number;
+  longitude: number;
+  name?: string | null;
+  address?: string | null;
+  url?: string | null;
+  /** Live location shares; the coordinates are the last known position. */
+  is_live?: boolean;
+};
+
+/** One contact card from a contact or multi-contact message. */
+export type SharedContact = {
+  display_name: string | null;
+  phone_numbers: string[];
+  vcard: string | null;
+};
+
 export type Message = {
   id: string;
   chat_jid: string;
@@ -22,10 +119,215 @@ export type Message = {
   timestamp: Date;
   is_from_me: boolean;
   chat_name?: string | null;
+  snippet?: string | null;
+  media?: MessageMedia | null;
+  location?: MessageLocation | null;
+  contacts?: SharedContact[] | null;
+  edited_at?: Date | null;
+  deleted_at?: Date | null;
+  reactions?: Record<string, number>;
+  status?: MessageStatus | null;
+};
+
+// Mirrors proto.WebMessageInfo.Status; stored as its integer value
+export const MESSAGE_STATUSES = [
+  "error",
+  "pending",
+  "server_ack",
+  "delivered",
+  "read",
+  "played",
+] as const;
+export type MessageStatus = (typeof MESSAGE_STATUSES)[number];
+
+export type MessageReceipt = {
+  message_id: string;
+  chat_jid: string;
+  recipient_jid: string;
+  delivered_at?: Date | null;
+  read_at?: Date | null;
+  played_at?: Date | null;
+};
+
+export type Reaction = {
+  message_id: string;
+  chat_jid: string;
+  reactor_jid: string;
+  emoji: string;
+  timestamp: Date;
+};
+
+export type Poll = {
+  message_id: string;
+  chat_jid: string;
+  creator_jid: string;
+  question: string;
+  options: string[];
+  /** 1 for single choice; 0 lets voters pick any number of options. */
+  selectable_count: number;
+  /** Base64 poll secret (messageContextInfo.messageSecret). */
+  enc_key: string;
+  created_at: Date;
+};
+
+export type PollVote = {
+  poll_message_id: string;
+  chat_jid: string;
+  voter_jid: string;
+  /** Option names; empty when the voter withdrew their vote. */
+  selected_options: string[];
+  timestamp: Date;
+};
+
+export type MessageRevision = {
+  revision: number;
+  content: string;
+  replaced_at: Date | null;
+};
+
+// Placeholder stored in place of the text of a message revoked for everyone
+export const DELETED_MESSAGE_CONTENT = "[Message deleted]";
+
+export type MessageSearchOrder = "relevance" | "newest" | "oldest";
+
+export const OUTBOX_STATUSES = [
+  "queued",
+  "sending",
+  "sent",
+  "failed",
+  "cancelled",
+] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+// What to send; stored as JSON so the item can be replayed after a restart
+export type OutboxPayload =
+  | { kind: "text"; text: string }
+  | {
+      kind: "media";
+      media_type: "image" | "video" | "document" | "audio" | "sticker";
+      media_path: string;
+      caption?: string;
+      file_name?: string;
+    }
+  | {
+      kind: "reply";
+      text: string;
+      quoted_message_id: string;
+      quoted_content: string;
+      quoted_sender: string | null;
+      quoted_is_from_me: boolean;
+    }
+  | {
+      kind: "reaction";
+      message_id: string;
+      message_sender: string | null;
+      message_is_from_me: boolean;
+      emoji: string;
+    }
+  | {
+      kind: "poll";
+      question: string;
+      options: string[];
+      selectable_count: number;
+    }
+  | {
+      kind: "location";
+      latitude: number;
+      longitude: number;
+      name?: string;
+      address?: string;
+    }
+  | { kind: "contacts"; contacts: { display_name: string; vcard: string }[] };
+
+export type OutboxItem = {
+  id: number;
+  chat_jid: string;
+  payload: OutboxPayload;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  sent_message_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export const SCHEDULE_CATCH_UP_POLICIES = ["send_once", "send_all", "skip"] as const;
+export type ScheduleCatchUpPolicy = (typeof SCHEDULE_CATCH_UP_POLICIES)[number];
+
+export type ScheduledMessageStatus = "active" | "completed" | "cancelled";
+
+export type ScheduledMessage = {
+  id: number;
+  chat_jid: string;
+  payload: Extract<OutboxPayload, { kind: "text" | "media" }>;
+  starts_at: Date;
+  recurrence: string | null;
+  catch_up: ScheduleCatchUpPolicy;
+  next_run_at: Date | null;
+  status: ScheduledMessageStatus;
+  run_count: number;
+  last_run_at: Date | null;
+  last_outbox_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export const POLICY_ACTIONS = ["send", "react", "read", "manage"] as const;
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+export type PolicyEffect = "allow" | "deny";
+
+export type PolicyRule = {
+  id: number | null; // null for rules from the policy file
+  action: PolicyAction | "*";
+  effect: PolicyEffect;
+  pattern: string;
+  note: string | null;
+};
+
+export const AUDIT_STATUSES = ["ok", "queued", "error", "denied"] as const;
+export type AuditStatus = (typeof AUDIT_STATUSES)[number];
+
+export type AuditEntry = {
+  id?: number;
+  timestamp: Date;
+  tool: string;
+  status: AuditStatus;
+  chat_jid?: string | null;
+  content_preview?: string | null;
+  content_sha256?: string | null;
+  message_id?: string | null;
+  outbox_id?: number | null;
+  schedule_id?: number | null;
+  error?: string | null;
+  client_name?: string | null;
+  client_version?: string | null;
+  session_id?: string | null;
+  details?: Record<string, unknown> | null;
+  /** Current state of the linked outbox item (read-only, from a join). */
+  outbox_status?: OutboxStatus | null;
+  outbox_message_id?: string | null;
+};
+
+export type AuditLogFilter = {
+  since?: Date | null;
+  until?: Date | null;
+  tool?: string | null;
+  chat_jid?: string | null;
+  status?: AuditStatus | null;
 };
 
 let dbInstance: DatabaseSync | null = null;
 
+/** Resolves a bare file name in data/imports/; throws on anything with a directory part. */
+export function importFilePath(fileName: string): string {
+  if (fileName !== path.basename(fileName) || fileName.includes("\\") || fileName === "." || fileName === "..") {
+    throw new Error(`${fileName} is not a plain file name`);
+  }
+  return path.join(IMPORT_DIR, fileName);
+}
+
 function getDb(): DatabaseSync {
   if (!dbInstance) {
     if (!fs.existsSync(DATA_DIR)) {
@@ -33,107 +335,1342 @@ function getDb(): DatabaseSync {
     }
     dbInstance = new DatabaseSync(DB_PATH);
   }
-  return dbInstance;
+  return dbInstance;
+}
+
+// Open savepoints; each transaction() call nests inside the one around it
+let transactionDepth = 0;
+
+/**
+ * Runs `fn` in a transaction, rolled back if it throws. Nested calls become
+ * savepoints, so functions that need a transaction of their own can still
+ * run inside a larger one.
+ */
+export function transaction<T>(fn: () => T): T {
+  const db = getDb();
+  const savepoint = `tx_${transactionDepth++}`;
+  try {
+    db.exec(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = fn();
+      db.exec(`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      db.exec(`ROLLBACK TO ${savepoint}`);
+      db.exec(`RELEASE ${savepoint}`);
+      throw error;
+    }
+  } finally {
+    transactionDepth--;
+  }
+}
+
+export function initializeDatabase(): DatabaseSync {
+  const db = getDb();
+
+  db.exec("PRAGMA journal_mode = WAL");
+
+  const applied = runMigrations(db, backupDatabase);
+  if (applied.length > 0) {
+    console.error(
+      `Applied database migrations: ${applied.join(", ")} (schema version ${getUserVersion(db)}).`,
+    );
+  }
+
+  return db;
+}
+
+/**
+ * Writes a consistent snapshot of the database to data/backups/ using
+ * VACUUM INTO. Called before destructive migrations; returns the backup path.
+ */
+export function backupDatabase(
+  fromVersion: number,
+  migration?: Pick<Migration, "version" | "name">,
+): string {
+  const db = getDb();
+  if (!fs.existsSync(BACKUP_DIR)) {
+    fs.mkdirSync(BACKUP_DIR, { recursive: true });
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    BACKUP_DIR,
+    `whatsapp-v${fromVersion}${migration ? `-before-v${migration.version}` : ""}-${stamp}.db`,
+  );
+  db.prepare("VACUUM INTO ?").run(backupPath);
+  console.error(`Database backed up to ${backupPath}`);
+  return backupPath;
+}
+
+/** Reports the on-disk schema version and any migrations not yet applied. */
+export function getDatabaseSchemaStatus(): SchemaStatus {
+  return getSchemaStatus(getDb());
+}
+
+/** Returns the CREATE statements for every table, index and trigger. */
+export function getSchemaDescription(): string {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT sql FROM sqlite_master
+       WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'messages_fts_%'
+       ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'index' THEN 1 ELSE 2 END, name`,
+    )
+    .all() as { sql: string }[];
+  return rows.map((row) => `${row.sql.trim()};`).join("\n\n");
+}
+
+export function storeChat(chat: Partial<Chat> & { jid: string }): void {
+  const db = getDb();
+  try {
+    const stmt = db.prepare(`
+            INSERT INTO chats (jid, name, last_message_time)
+            VALUES (@jid, @name, @last_message_time)
+            ON CONFLICT(jid) DO UPDATE SET
+                name = CASE WHEN excluded.name IS NOT NULL THEN excluded.name ELSE name END,
+                last_message_time = COALESCE(excluded.last_message_time, last_message_time)
+        `);
+    stmt.run({
+      jid: chat.jid,
+      name: chat.name ?? null,
+      last_message_time:
+        chat.last_message_time instanceof Date
+          ? chat.last_message_time.toISOString()
+          : null,
+    });
+  } catch (error) {
+    console.error("Error storing chat:", error);
+  }
+}
+
+/**
+ * Marks a chat read up to `readAt`, or up to its newest message. The marker
+ * never moves backwards.
+ */
+export function markChatRead(jid: string, readAt: Date | null = null): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            UPDATE chats SET
+                unread_count = 0,
+                last_read_at = CASE
+                    WHEN read_at IS NULL THEN last_read_at
+                    WHEN last_read_at IS NULL OR last_read_at < read_at THEN read_at
+                    ELSE last_read_at
+                END
+            FROM (
+                SELECT COALESCE(@read_at, (SELECT MAX(timestamp) FROM messages WHERE chat_jid = @jid)) AS read_at
+            )
+            WHERE jid = @jid
+        `).run({ jid, read_at: readAt?.toISOString() ?? null });
+  } catch (error) {
+    console.error("Error marking chat read:", error);
+  }
+}
+
+/** Places a chat's last-read marker at `readAt` unless it already has one. */
+export function initChatReadMarker(jid: string, readAt: Date): void {
+  const db = getDb();
+  try {
+    db.prepare(`UPDATE chats SET last_read_at = ? WHERE jid = ? AND last_read_at IS NULL`).run(
+      readAt.toISOString(),
+      jid,
+    );
+  } catch (error) {
+    console.error("Error setting last-read marker:", error);
+  }
+}
+
+/** Flags a chat unread, as "Mark as unread" on the phone does. */
+export function markChatUnread(jid: string): void {
+  const db = getDb();
+  try {
+    db.prepare(`UPDATE chats SET unread_count = MAX(unread_count, 1) WHERE jid = ?`).run(jid);
+  } catch (error) {
+    console.error("Error marking chat unread:", error);
+  }
+}
+
+/** Counts `count` more unread messages in a chat. */
+export function incrementChatUnread(jid: string, count: number): void {
+  const db = getDb();
+  try {
+    db.prepare(`UPDATE chats SET unread_count = unread_count + ? WHERE jid = ?`).run(count, jid);
+  } catch (error) {
+    console.error("Error incrementing unread count:", error);
+  }
+}
+
+/**
+ * Sets a chat's unread count as WhatsApp reports it in history sync, and
+ * places the last-read marker just before that many incoming messages. When
+ * fewer messages are stored, every stored message counts as unread.
+ */
+export function setChatUnreadCount(jid: string, count: number): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            UPDATE chats SET
+                unread_count = @count,
+                last_read_at = CASE
+                    WHEN @count = 0 THEN COALESCE(
+                        (SELECT MAX(timestamp) FROM messages WHERE chat_jid = @jid), last_read_at
+                    )
+                    ELSE (
+                        SELECT timestamp FROM messages
+                        WHERE chat_jid = @jid AND is_from_me = 0
+                        ORDER BY timestamp DESC
+                        LIMIT 1 OFFSET @count
+                    )
+                END
+            WHERE jid = @jid
+        `).run({ jid, count });
+  } catch (error) {
+    console.error("Error setting unread count:", error);
+  }
+}
+
+/** Records when a chat's mute ends; null unmutes it. */
+export function setChatMutedUntil(jid: string, mutedUntil: Date | null): void {
+  const db = getDb();
+  try {
+    db.prepare(`UPDATE chats SET muted_until = ? WHERE jid = ?`).run(mutedUntil?.toISOString() ?? null, jid);
+  } catch (error) {
+    console.error("Error setting chat mute:", error);
+  }
+}
+
+export type UnreadChat = Chat & {
+  /** Stored messages after the last-read marker. */
+  new_messages: number;
+};
+
+/**
+ * Chats with messages after their last-read marker, or that WhatsApp counts
+ * as unread, most recently active first. Muted chats are left out unless
+ * `includeMuted`.
+ */
+export function getUnreadChats(limit: number, includeMuted: boolean = false, offset: number = 0): UnreadChat[] {
+  const db = getDb();
+  try {
+    const stmt = db.prepare(`
+            SELECT
+                c.jid,
+                ${CHAT_NAME_SQL} as name,
+                c.last_message_time,
+                c.unread_count,
+                c.last_read_at,
+                c.muted_until,
+                COUNT(m.id) as new_messages
+            FROM chats c
+            LEFT JOIN contacts ct ON ct.jid = c.jid
+            LEFT JOIN messages m ON m.chat_jid = c.jid
+              AND m.is_from_me = 0
+              AND (c.last_read_at IS NULL OR m.timestamp > c.last_read_at)
+            WHERE (@include_muted = 1 OR c.muted_until IS NULL OR c.muted_until <= @now)
+            GROUP BY c.jid
+            HAVING new_messages > 0 OR c.unread_count > 0
+            ORDER BY COALESCE(MAX(m.timestamp), c.last_message_time) DESC NULLS LAST, c.jid ASC
+            LIMIT @limit OFFSET @offset
+        `);
+    const rows = stmt.all({
+      include_muted: includeMuted ? 1 : 0,
+      now: new Date().toISOString(),
+      limit,
+      offset,
+    }) as any[];
+    return rows.map((row) => ({ ...rowToChat(row), new_messages: Number(row.new_messages) }));
+  } catch (error) {
+    console.error("Error getting unread chats:", error);
+    return [];
+  }
+}
+
+export function storeMessage(message: Message): void {
+  const db = getDb();
+  try {
+    storeChat({ jid: message.chat_jid, last_message_time: message.timestamp });
+
+    // Upsert rather than INSERT OR REPLACE so the row keeps its seq and the
+    // FTS update trigger fires instead of leaving a stale index entry behind.
+    const stmt = db.prepare(`
+            INSERT INTO messages (id, chat_jid, sender, content, timestamp, is_from_me, status)
+            VALUES (@id, @chat_jid, @sender, @content, @timestamp, @is_from_me, @status)
+            ON CONFLICT(id, chat_jid) DO UPDATE SET
+                sender = excluded.sender,
+                -- Re-synced copies of edited or deleted messages carry stale text
+                content = CASE
+                    WHEN edited_at IS NOT NULL OR deleted_at IS NOT NULL THEN content
+                    ELSE excluded.content
+                END,
+                timestamp = excluded.timestamp,
+                is_from_me = excluded.is_from_me,
+                status = CASE
+                    WHEN excluded.status IS NOT NULL AND (status IS NULL OR excluded.status > status)
+                    THEN excluded.status ELSE status
+                END
+        `);
+
+    stmt.run({
+      id: message.id,
+      chat_jid: message.chat_jid,
+      sender: message.sender ?? null,
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      is_from_me: message.is_from_me ? 1 : 0,
+      status: message.status ? MESSAGE_STATUSES.indexOf(message.status) : null,
+    });
+
+    if (message.media) {
+      storeMessageMedia(message.id, message.chat_jid, message.media);
+    }
+    if (message.location) {
+      storeMessageLocation(message.id, message.chat_jid, message.location);
+    }
+    if (message.contacts?.length) {
+      storeMessageContacts(message.id, message.chat_jid, message.contacts);
+    }
+
+    const updateChatTimeStmt = db.prepare(`
+            UPDATE chats
+            SET last_message_time = MAX(COALESCE(last_message_time, '1970-01-01T00:00:00.000Z'), @timestamp)
+            WHERE jid = @jid
+        `);
+    updateChatTimeStmt.run({
+      timestamp: message.timestamp.toISOString(),
+      jid: message.chat_jid,
+    });
+  } catch (error) {
+    console.error("Error storing message:", error);
+  }
+}
+
+export function storeMessageMedia(
+  messageId: string,
+  chatJid: string,
+  media: MessageMedia,
+): void {
+  const db = getDb();
+  try {
+    // Keep an existing cache_path: history re-syncs carry no cache info
+    const stmt = db.prepare(`
+            INSERT INTO message_media (
+                message_id, chat_jid, media_type, mimetype, file_name, file_length,
+                url, direct_path, media_key, file_sha256, file_enc_sha256, media_key_timestamp
+            )
+            VALUES (
+                @message_id, @chat_jid, @media_type, @mimetype, @file_name, @file_length,
+                @url, @direct_path, @media_key, @file_sha256, @file_enc_sha256, @media_key_timestamp
+            )
+            ON CONFLICT(message_id, chat_jid) DO UPDATE SET
+                media_type = excluded.media_type,
+                mimetype = COALESCE(excluded.mimetype, mimetype),
+                file_name = COALESCE(excluded.file_name, file_name),
+                file_length = COALESCE(excluded.file_length, file_length),
+                url = COALESCE(excluded.url, url),
+                direct_path = COALESCE(excluded.direct_path, direct_path),
+                media_key = COALESCE(excluded.media_key, media_key),
+                file_sha256 = COALESCE(excluded.file_sha256, file_sha256),
+                file_enc_sha256 = COALESCE(excluded.file_enc_sha256, file_enc_sha256),
+                media_key_timestamp = COALESCE(excluded.media_key_timestamp, media_key_timestamp)
+        `);
+    stmt.run({
+      message_id: messageId,
+      chat_jid: chatJid,
+      media_type: media.media_type,
+      mimetype: media.mimetype ?? null,
+      file_name: media.file_name ?? null,
+      file_length: media.file_length ?? null,
+      url: media.url ?? null,
+      direct_path: media.direct_path ?? null,
+      media_key: media.media_key ?? null,
+      file_sha256: media.file_sha256 ?? null,
+      file_enc_sha256: media.file_enc_sha256 ?? null,
+      media_key_timestamp: media.media_key_timestamp ?? null,
+    });
+  } catch (error) {
+    console.error("Error storing message media:", error);
+  }
+}
+
+export function storeMessageLocation(
+  messageId: string,
+  chatJid: string,
+  location: MessageLocation,
+): void {
+  const db = getDb();
+  try {
+    // Live locations are re-sent as they move; keep the latest position
+    db.prepare(`
+            INSERT INTO message_locations (message_id, chat_jid, latitude, longitude, name, address, url, is_live)
+            VALUES (@message_id, @chat_jid, @latitude, @longitude, @name, @address, @url, @is_live)
+            ON CONFLICT(message_id, chat_jid) DO UPDATE SET
+                latitude = excluded.latitude,
+                longitude = excluded.longitude,
+                name = COALESCE(excluded.name, name),
+                address = COALESCE(excluded.address, address),
+                url = COALESCE(excluded.url, url),
+                is_live = excluded.is_live
+        `).run({
+      message_id: messageId,
+      chat_jid: chatJid,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      name: location.name ?? null,
+      address: location.address ?? null,
+      url: location.url ?? null,
+      is_live: location.is_live ? 1 : 0,
+    });
+  } catch (error) {
+    console.error("Error storing message location:", error);
+  }
+}
+
+export function storeMessageContacts(
+  messageId: string,
+  chatJid: string,
+  contacts: SharedContact[],
+): void {
+  const db = getDb();
+  try {
+    transaction(() => {
+      db.prepare(`DELETE FROM message_contacts WHERE message_id = ? AND chat_jid = ?`).run(
+        messageId,
+        chatJid,
+      );
+      const insert = db.prepare(`
+            INSERT INTO message_contacts (message_id, chat_jid, position, display_name, phone_numbers, vcard)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+      contacts.forEach((contact, position) =>
+        insert.run(
+          messageId,
+          chatJid,
+          position,
+          contact.display_name,
+          JSON.stringify(contact.phone_numbers),
+          contact.vcard,
+        ),
+      );
+    });
+  } catch (error) {
+    console.error("Error storing message contacts:", error);
+  }
+}
+
+export function setMediaCachePath(
+  messageId: string,
+  chatJid: string,
+  cachePath: string | null,
+): void {
+  const db = getDb();
+  try {
+    db.prepare(
+      `UPDATE message_media SET cache_path = ? WHERE message_id = ? AND chat_jid = ?`,
+    ).run(cachePath, messageId, chatJid);
+  } catch (error) {
+    console.error("Error updating media cache path:", error);
+  }
+}
+
+/** Forgets a cached file for every message that pointed at it (after eviction). */
+export function clearMediaCachePath(cachePath: string): void {
+  const db = getDb();
+  try {
+    db.prepare(
+      `UPDATE message_media SET cache_path = NULL WHERE cache_path = ?`,
+    ).run(cachePath);
+  } catch (error) {
+    console.error("Error clearing media cache path:", error);
+  }
+}
+
+/**
+ * Moves the current text of a message into message_revisions (inside the same
+ * transaction as the change that supersedes it). Returns false when the
+ * message isn't stored.
+ */
+function archiveCurrentRevision(
+  db: DatabaseSync,
+  messageId: string,
+  chatJid: string,
+  replacedAt: Date,
+): boolean {
+  const current = db
+    .prepare(`SELECT content FROM messages WHERE id = ? AND chat_jid = ?`)
+    .get(messageId, chatJid) as { content: string } | undefined;
+  if (!current) return false;
+  db.prepare(`
+        INSERT INTO message_revisions (message_id, chat_jid, revision, content, replaced_at)
+        VALUES (
+            @message_id, @chat_jid,
+            (SELECT COALESCE(MAX(revision), 0) + 1 FROM message_revisions WHERE message_id = @message_id AND chat_jid = @chat_jid),
+            @content, @replaced_at
+        )
+    `).run({
+    message_id: messageId,
+    chat_jid: chatJid,
+    content: current.content,
+    replaced_at: replacedAt.toISOString(),
+  });
+  return true;
+}
+
+/**
+ * Applies an edit to a stored message, keeping the previous text as a revision.
+ * Duplicate deliveries of the same edit are ignored. Returns true if applied.
+ */
+export function applyMessageEdit(
+  messageId: string,
+  chatJid: string,
+  newContent: string,
+  editedAt: Date,
+): boolean {
+  const db = getDb();
+  try {
+    const current = db
+      .prepare(`SELECT content, deleted_at FROM messages WHERE id = ? AND chat_jid = ?`)
+      .get(messageId, chatJid) as { content: string; deleted_at: string | null } | undefined;
+    if (!current || current.deleted_at || current.content === newContent) {
+      return false;
+    }
+    transaction(() => {
+      archiveCurrentRevision(db, messageId, chatJid, editedAt);
+      db.prepare(
+        `UPDATE messages SET content = ?, edited_at = ? WHERE id = ? AND chat_jid = ?`,
+      ).run(newContent, editedAt.toISOString(), messageId, chatJid);
+    });
+    return true;
+  } catch (error) {
+    console.error("Error applying message edit:", error);
+    return false;
+  }
+}
+
+/**
+ * Marks a message as revoked ("deleted for everyone"). Its last text is kept in
+ * message_revisions and replaced by a placeholder so searches stop matching it.
+ */
+export function markMessageDeleted(
+  messageId: string,
+  chatJid: string,
+  deletedAt: Date,
+): boolean {
+  const db = getDb();
+  try {
+    const current = db
+      .prepare(`SELECT deleted_at FROM messages WHERE id = ? AND chat_jid = ?`)
+      .get(messageId, chatJid) as { deleted_at: string | null } | undefined;
+    if (!current || current.deleted_at) {
+      return false;
+    }
+    transaction(() => {
+      archiveCurrentRevision(db, messageId, chatJid, deletedAt);
+      db.prepare(
+        `UPDATE messages SET content = ?, deleted_at = ? WHERE id = ? AND chat_jid = ?`,
+      ).run(DELETED_MESSAGE_CONTENT, deletedAt.toISOString(), messageId, chatJid);
+    });
+    return true;
+  } catch (error) {
+    console.error("Error marking message deleted:", error);
+    return false;
+  }
+}
+
+/** Returns earlier revisions of a message, oldest first (excludes the current text). */
+export function getMessageRevisions(
+  messageId: string,
+  chatJid: string,
+): MessageRevision[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT revision, content, replaced_at
+            FROM message_revisions
+            WHERE message_id = ? AND chat_jid = ?
+            ORDER BY revision ASC
+        `)
+      .all(messageId, chatJid) as any[];
+    return rows.map((row) => ({
+      revision: row.revision,
+      content: row.content,
+      replaced_at: parseDateSafe(row.replaced_at),
+    }));
+  } catch (error) {
+    console.error("Error getting message revisions:", error);
+    return [];
+  }
+}
+
+/**
+ * Records a reaction. WhatsApp allows one reaction per person per message, so
+ * any earlier emoji from the same reactor is replaced; an empty emoji removes
+ * the reaction. Out-of-order deliveries older than the stored one are ignored.
+ */
+export function storeReaction(reaction: Reaction): void {
+  const db = getDb();
+  try {
+    const latest = db
+      .prepare(`
+            SELECT MAX(timestamp) as timestamp FROM reactions
+            WHERE message_id = ? AND chat_jid = ? AND reactor_jid = ?
+        `)
+      .get(reaction.message_id, reaction.chat_jid, reaction.reactor_jid) as
+      | { timestamp: string | null }
+      | undefined;
+    if (latest?.timestamp && latest.timestamp > reaction.timestamp.toISOString()) {
+      return;
+    }
+
+    transaction(() => {
+      db.prepare(`
+            DELETE FROM reactions WHERE message_id = ? AND chat_jid = ? AND reactor_jid = ?
+        `).run(reaction.message_id, reaction.chat_jid, reaction.reactor_jid);
+      if (reaction.emoji) {
+        db.prepare(`
+            INSERT INTO reactions (message_id, chat_jid, reactor_jid, emoji, timestamp)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(
+          reaction.message_id,
+          reaction.chat_jid,
+          reaction.reactor_jid,
+          reaction.emoji,
+          reaction.timestamp.toISOString(),
+        );
+      }
+    });
+  } catch (error) {
+    console.error("Error storing reaction:", error);
+  }
+}
+
+export function getReactions(messageId: string, chatJid: string): Reaction[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT * FROM reactions
+            WHERE message_id = ? AND chat_jid = ?
+            ORDER BY emoji ASC, timestamp ASC
+        `)
+      .all(messageId, chatJid) as any[];
+    return rows.map((row) => ({
+      message_id: row.message_id,
+      chat_jid: row.chat_jid,
+      reactor_jid: row.reactor_jid,
+      emoji: row.emoji,
+      timestamp: parseDateSafe(row.timestamp)!,
+    }));
+  } catch (error) {
+    console.error("Error getting reactions:", error);
+    return [];
+  }
+}
+
+export function storePoll(poll: Poll): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            INSERT INTO polls (message_id, chat_jid, creator_jid, question, options, selectable_count, enc_key, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(message_id, chat_jid) DO NOTHING
+        `).run(
+      poll.message_id,
+      poll.chat_jid,
+      poll.creator_jid,
+      poll.question,
+      JSON.stringify(poll.options),
+      poll.selectable_count,
+      poll.enc_key,
+      poll.created_at.toISOString(),
+    );
+  } catch (error) {
+    console.error("Error storing poll:", error);
+  }
+}
+
+function rowToPoll(row: any): Poll {
+  return {
+    message_id: row.message_id,
+    chat_jid: row.chat_jid,
+    creator_jid: row.creator_jid,
+    question: row.question,
+    options: JSON.parse(row.options),
+    selectable_count: row.selectable_count,
+    enc_key: row.enc_key,
+    created_at: parseDateSafe(row.created_at)!,
+  };
+}
+
+/** Looks a poll up by message ID, optionally narrowed to one chat. */
+export function getPoll(messageId: string, chatJid?: string | null): Poll | null {
+  const db = getDb();
+  try {
+    const row = chatJid
+      ? db.prepare(`SELECT * FROM polls WHERE message_id = ? AND chat_jid = ?`).get(messageId, chatJid)
+      : db.prepare(`SELECT * FROM polls WHERE message_id = ? ORDER BY created_at DESC LIMIT 1`).get(messageId);
+    return row ? rowToPoll(row) : null;
+  } catch (error) {
+    console.error("Error getting poll:", error);
+    return null;
+  }
+}
+
+/**
+ * Records a voter's current selection. Each vote carries the voter's full
+ * selection, so it replaces any earlier one; older out-of-order votes are ignored.
+ */
+export function storePollVote(vote: PollVote): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            INSERT INTO poll_votes (poll_message_id, chat_jid, voter_jid, selected_options, timestamp)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(poll_message_id, chat_jid, voter_jid) DO UPDATE SET
+                selected_options = excluded.selected_options,
+                timestamp = excluded.timestamp
+            WHERE excluded.timestamp >= poll_votes.timestamp
+        `).run(
+      vote.poll_message_id,
+      vote.chat_jid,
+      vote.voter_jid,
+      JSON.stringify(vote.selected_options),
+      vote.timestamp.toISOString(),
+    );
+  } catch (error) {
+    console.error("Error storing poll vote:", error);
+  }
+}
+
+export function getPollVotes(messageId: string, chatJid: string): PollVote[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT * FROM poll_votes
+            WHERE poll_message_id = ? AND chat_jid = ?
+            ORDER BY timestamp ASC
+        `)
+      .all(messageId, chatJid) as any[];
+    return rows.map((row) => ({
+      poll_message_id: row.poll_message_id,
+      chat_jid: row.chat_jid,
+      voter_jid: row.voter_jid,
+      selected_options: JSON.parse(row.selected_options),
+      timestamp: parseDateSafe(row.timestamp)!,
+    }));
+  } catch (error) {
+    console.error("Error getting poll votes:", error);
+    return [];
+  }
+}
+
+/**
+ * Advances the delivery status of a stored message. Statuses only move forward
+ * (a late "delivered" never overrides "read"), except that "error" always wins.
+ */
+export function updateMessageStatus(
+  messageId: string,
+  chatJid: string,
+  status: MessageStatus,
+): void {
+  const db = getDb();
+  try {
+    const value = MESSAGE_STATUSES.indexOf(status);
+    db.prepare(`
+            UPDATE messages SET status = @status
+            WHERE id = @id AND chat_jid = @chat_jid
+              AND (status IS NULL OR status < @status OR @status = 0)
+        `).run({ status: value, id: messageId, chat_jid: chatJid });
+  } catch (error) {
+    console.error("Error updating message status:", error);
+  }
+}
+
+/** Merges a receipt for one recipient, keeping the earliest time of each kind. */
+export function storeMessageReceipt(receipt: MessageReceipt): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            INSERT INTO message_receipts (message_id, chat_jid, recipient_jid, delivered_at, read_at, played_at)
+            VALUES (@message_id, @chat_jid, @recipient_jid, @delivered_at, @read_at, @played_at)
+            ON CONFLICT(message_id, chat_jid, recipient_jid) DO UPDATE SET
+                delivered_at = COALESCE(MIN(delivered_at, excluded.delivered_at), delivered_at, excluded.delivered_at),
+                read_at = COALESCE(MIN(read_at, excluded.read_at), read_at, excluded.read_at),
+                played_at = COALESCE(MIN(played_at, excluded.played_at), played_at, excluded.played_at)
+        `).run({
+      message_id: receipt.message_id,
+      chat_jid: receipt.chat_jid,
+      recipient_jid: receipt.recipient_jid,
+      delivered_at: receipt.delivered_at?.toISOString() ?? null,
+      read_at: receipt.read_at?.toISOString() ?? null,
+      played_at: receipt.played_at?.toISOString() ?? null,
+    });
+  } catch (error) {
+    console.error("Error storing message receipt:", error);
+  }
+}
+
+export function getMessageReceipts(
+  messageId: string,
+  chatJid: string,
+): MessageReceipt[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT * FROM message_receipts
+            WHERE message_id = ? AND chat_jid = ?
+            ORDER BY recipient_jid ASC
+        `)
+      .all(messageId, chatJid) as any[];
+    return rows.map((row) => ({
+      message_id: row.message_id,
+      chat_jid: row.chat_jid,
+      recipient_jid: row.recipient_jid,
+      delivered_at: parseDateSafe(row.delivered_at),
+      read_at: parseDateSafe(row.read_at),
+      played_at: parseDateSafe(row.played_at),
+    }));
+  } catch (error) {
+    console.error("Error getting message receipts:", error);
+    return [];
+  }
+}
+
+function rowToOutboxItem(row: any): OutboxItem {
+  return {
+    id: row.id,
+    chat_jid: row.chat_jid,
+    payload: JSON.parse(row.payload) as OutboxPayload,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts,
+    max_attempts: row.max_attempts,
+    next_attempt_at: parseDateSafe(row.next_attempt_at)!,
+    last_error: row.last_error ?? null,
+    sent_message_id: row.sent_message_id ?? null,
+    created_at: parseDateSafe(row.created_at)!,
+    updated_at: parseDateSafe(row.updated_at)!,
+  };
+}
+
+/** Queues a message for sending. Throws if the item can't be persisted. */
+export function enqueueOutboxItem(
+  chatJid: string,
+  payload: OutboxPayload,
+  maxAttempts: number,
+): OutboxItem {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const row = db
+    .prepare(`
+            INSERT INTO outbox (chat_jid, kind, payload, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+            VALUES (?, ?, ?, 'queued', 0, ?, ?, ?, ?)
+            RETURNING *
+        `)
+    .get(
+      chatJid,
+      payload.kind,
+      JSON.stringify(payload),
+      maxAttempts,
+      now,
+      now,
+      now,
+    );
+  return rowToOutboxItem(row);
+}
+
+export function getOutboxItem(id: number): OutboxItem | null {
+  const db = getDb();
+  try {
+    const row = db.prepare(`SELECT * FROM outbox WHERE id = ?`).get(id);
+    return row ? rowToOutboxItem(row) : null;
+  } catch (error) {
+    console.error("Error getting outbox item:", error);
+    return null;
+  }
+}
+
+export function listOutboxItems(
+  statuses: OutboxStatus[] | null = null,
+  chatJid: string | null = null,
+  limit: number = 50,
+  page: number = 0,
+): OutboxItem[] {
+  const db = getDb();
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (statuses?.length) {
+      conditions.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+      params.push(...statuses);
+    }
+    if (chatJid) {
+      conditions.push("chat_jid = ?");
+      params.push(chatJid);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = db
+      .prepare(`SELECT * FROM outbox ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, limit, page * limit) as any[];
+    return rows.map(rowToOutboxItem);
+  } catch (error) {
+    console.error("Error listing outbox items:", error);
+    return [];
+  }
+}
+
+/**
+ * Returns the next item ready to send: the oldest queued item of its chat
+ * whose retry time has passed. Later items in a chat wait behind an earlier
+ * one that is still queued or in flight, preserving per-chat order.
+ */
+export function getNextDueOutboxItem(now: Date = new Date()): OutboxItem | null {
+  const db = getDb();
+  try {
+    const row = db
+      .prepare(`
+            SELECT o.* FROM outbox o
+            WHERE o.status = 'queued' AND o.next_attempt_at <= ?
+              AND NOT EXISTS (
+                SELECT 1 FROM outbox e
+                WHERE e.chat_jid = o.chat_jid AND e.id < o.id
+                  AND e.status IN ('queued', 'sending')
+              )
+            ORDER BY o.next_attempt_at ASC, o.id ASC
+            LIMIT 1
+        `)
+      .get(now.toISOString());
+    return row ? rowToOutboxItem(row) : null;
+  } catch (error) {
+    console.error("Error getting next outbox item:", error);
+    return null;
+  }
+}
+
+/** Earliest retry time among queued items, used to schedule the next wake-up. */
+export function getNextOutboxAttemptTime(): Date | null {
+  const db = getDb();
+  try {
+    const row = db
+      .prepare(`SELECT MIN(next_attempt_at) as next FROM outbox WHERE status = 'queued'`)
+      .get() as { next: string | null } | undefined;
+    return parseDateSafe(row?.next);
+  } catch (error) {
+    console.error("Error getting next outbox attempt time:", error);
+    return null;
+  }
+}
+
+/**
+ * Applies a state transition. `fromStatuses` guards against races (e.g. a
+ * cancel landing while the item is being sent); returns the updated item, or
+ * null when the item was not in one of those states.
+ */
+export function updateOutboxItem(
+  id: number,
+  fromStatuses: OutboxStatus[],
+  changes: {
+    status: OutboxStatus;
+    attempts?: number;
+    next_attempt_at?: Date;
+    last_error?: string | null;
+    sent_message_id?: string | null;
+  },
+): OutboxItem | null {
+  const db = getDb();
+  try {
+    const row = db
+      .prepare(`
+            UPDATE outbox SET
+                status = @status,
+                attempts = COALESCE(@attempts, attempts),
+                next_attempt_at = COALESCE(@next_attempt_at, next_attempt_at),
+                last_error = CASE WHEN @set_error THEN @last_error ELSE last_error END,
+                sent_message_id = COALESCE(@sent_message_id, sent_message_id),
+                updated_at = @updated_at
+            WHERE id = @id AND status IN (${fromStatuses.map((s) => `'${s}'`).join(", ")})
+            RETURNING *
+        `)
+      .get({
+        id,
+        status: changes.status,
+        attempts: changes.attempts ?? null,
+        next_attempt_at: changes.next_attempt_at?.toISOString() ?? null,
+        set_error: changes.last_error !== undefined ? 1 : 0,
+        last_error: changes.last_error ?? null,
+        sent_message_id: changes.sent_message_id ?? null,
+        updated_at: new Date().toISOString(),
+      });
+    return row ? rowToOutboxItem(row) : null;
+  } catch (error) {
+    console.error("Error updating outbox item:", error);
+    return null;
+  }
+}
+
+/**
+ * Items left in 'sending' by a crash are re-queued on startup. The send may
+ * have reached WhatsApp before the crash, so this can deliver a duplicate.
+ */
+export function requeueInterruptedOutboxItems(): number {
+  const db = getDb();
+  try {
+    const result = db
+      .prepare(`
+            UPDATE outbox SET status = 'queued', updated_at = ?
+            WHERE status = 'sending'
+        `)
+      .run(new Date().toISOString());
+    return Number(result.changes);
+  } catch (error) {
+    console.error("Error re-queueing interrupted outbox items:", error);
+    return 0;
+  }
+}
+
+function rowToScheduledMessage(row: any): ScheduledMessage {
+  return {
+    id: row.id,
+    chat_jid: row.chat_jid,
+    payload: JSON.parse(row.payload),
+    starts_at: parseDateSafe(row.starts_at)!,
+    recurrence: row.recurrence ?? null,
+    catch_up: row.catch_up as ScheduleCatchUpPolicy,
+    next_run_at: parseDateSafe(row.next_run_at),
+    status: row.status as ScheduledMessageStatus,
+    run_count: row.run_count,
+    last_run_at: parseDateSafe(row.last_run_at),
+    last_outbox_id: row.last_outbox_id ?? null,
+    created_at: parseDateSafe(row.created_at)!,
+    updated_at: parseDateSafe(row.updated_at)!,
+  };
+}
+
+/** Stores a new active schedule. Throws if it can't be persisted. */
+export function createScheduledMessage(
+  chatJid: string,
+  payload: ScheduledMessage["payload"],
+  startsAt: Date,
+  firstRunAt: Date,
+  recurrence: string | null,
+  catchUp: ScheduleCatchUpPolicy,
+): ScheduledMessage {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const row = db
+    .prepare(`
+            INSERT INTO scheduled_messages (chat_jid, payload, starts_at, recurrence, catch_up, next_run_at, status, run_count, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, 'active', 0, ?, ?)
+            RETURNING *
+        `)
+    .get(
+      chatJid,
+      JSON.stringify(payload),
+      startsAt.toISOString(),
+      recurrence,
+      catchUp,
+      firstRunAt.toISOString(),
+      now,
+      now,
+    );
+  return rowToScheduledMessage(row);
+}
+
+export function getScheduledMessage(id: number): ScheduledMessage | null {
+  const db = getDb();
+  try {
+    const row = db.prepare(`SELECT * FROM scheduled_messages WHERE id = ?`).get(id);
+    return row ? rowToScheduledMessage(row) : null;
+  } catch (error) {
+    console.error("Error getting scheduled message:", error);
+    return null;
+  }
+}
+
+export function listScheduledMessages(
+  statuses: ScheduledMessageStatus[] | null = null,
+  limit: number = 50,
+  page: number = 0,
+): ScheduledMessage[] {
+  const db = getDb();
+  try {
+    const where = statuses?.length
+      ? `WHERE status IN (${statuses.map(() => "?").join(", ")})`
+      : "";
+    const rows = db
+      .prepare(`
+            SELECT * FROM scheduled_messages ${where}
+            ORDER BY next_run_at IS NULL, next_run_at ASC, id DESC
+            LIMIT ? OFFSET ?
+        `)
+      .all(...(statuses ?? []), limit, page * limit) as any[];
+    return rows.map(rowToScheduledMessage);
+  } catch (error) {
+    console.error("Error listing scheduled messages:", error);
+    return [];
+  }
+}
+
+export function getDueScheduledMessages(now: Date = new Date()): ScheduledMessage[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT * FROM scheduled_messages
+            WHERE status = 'active' AND next_run_at <= ?
+            ORDER BY next_run_at ASC, id ASC
+        `)
+      .all(now.toISOString()) as any[];
+    return rows.map(rowToScheduledMessage);
+  } catch (error) {
+    console.error("Error getting due scheduled messages:", error);
+    return [];
+  }
+}
+
+export function getNextScheduledRunTime(): Date | null {
+  const db = getDb();
+  try {
+    const row = db
+      .prepare(`SELECT MIN(next_run_at) as next FROM scheduled_messages WHERE status = 'active'`)
+      .get() as { next: string | null } | undefined;
+    return parseDateSafe(row?.next);
+  } catch (error) {
+    console.error("Error getting next scheduled run time:", error);
+    return null;
+  }
+}
+
+/**
+ * Moves an active schedule past a run. Guarded on the run time it was read
+ * with, so a run can only be claimed once; returns false if another update
+ * (or a cancel) got there first.
+ */
+export function advanceScheduledMessage(
+  id: number,
+  expectedRunAt: Date,
+  changes: {
+    next_run_at: Date | null;
+    runs: number;
+    last_run_at: Date | null;
+  },
+): boolean {
+  const db = getDb();
+  try {
+    const result = db
+      .prepare(`
+            UPDATE scheduled_messages SET
+                next_run_at = @next_run_at,
+                status = CASE WHEN @next_run_at IS NULL THEN 'completed' ELSE status END,
+                run_count = run_count + @runs,
+                last_run_at = COALESCE(@last_run_at, last_run_at),
+                updated_at = @updated_at
+            WHERE id = @id AND status = 'active' AND next_run_at = @expected
+        `)
+      .run({
+        id,
+        expected: expectedRunAt.toISOString(),
+        next_run_at: changes.next_run_at?.toISOString() ?? null,
+        runs: changes.runs,
+        last_run_at: changes.last_run_at?.toISOString() ?? null,
+        updated_at: new Date().toISOString(),
+      });
+    return Number(result.changes) > 0;
+  } catch (error) {
+    console.error("Error advancing scheduled message:", error);
+    return false;
+  }
+}
+
+export function setScheduledMessageLastOutboxId(id: number, outboxId: number): void {
+  const db = getDb();
+  try {
+    db.prepare(`UPDATE scheduled_messages SET last_outbox_id = ? WHERE id = ?`).run(
+      outboxId,
+      id,
+    );
+  } catch (error) {
+    console.error("Error updating scheduled message:", error);
+  }
+}
+
+/** Cancels an active schedule; returns null if it isn't active. */
+export function cancelScheduledMessage(id: number): ScheduledMessage | null {
+  const db = getDb();
+  try {
+    const row = db
+      .prepare(`
+            UPDATE scheduled_messages SET status = 'cancelled', next_run_at = NULL, updated_at = ?
+            WHERE id = ? AND status = 'active'
+            RETURNING *
+        `)
+      .get(new Date().toISOString(), id);
+    return row ? rowToScheduledMessage(row) : null;
+  } catch (error) {
+    console.error("Error cancelling scheduled message:", error);
+    return null;
+  }
 }
 
-export function initializeDatabase(): DatabaseSync {
+export function getPolicyRules(): PolicyRule[] {
   const db = getDb();
+  try {
+    const rows = db
+      .prepare(`SELECT * FROM policy_rules ORDER BY id ASC`)
+      .all() as any[];
+    return rows.map((row) => ({
+      id: row.id,
+      action: row.action,
+      effect: row.effect,
+      pattern: row.pattern,
+      note: row.note ?? null,
+    }));
+  } catch (error) {
+    console.error("Error getting policy rules:", error);
+    return [];
+  }
+}
 
-  db.exec("PRAGMA journal_mode = WAL");
-
-  db.exec(`
-        CREATE TABLE IF NOT EXISTS chats (
-            jid TEXT PRIMARY KEY,
-            name TEXT,
-            last_message_time TEXT -- Store dates as ISO strings
-        );
-    `);
-
-  db.exec(`
-        CREATE TABLE IF NOT EXISTS messages (
-            id TEXT,
-            chat_jid TEXT,
-            sender TEXT,      -- JID of the sender (can be group participant or contact)
-            content TEXT,
-            timestamp TEXT, -- Store dates as ISO strings
-            is_from_me INTEGER, -- Store booleans as 0 or 1
-            PRIMARY KEY (id, chat_jid),
-            FOREIGN KEY (chat_jid) REFERENCES chats(jid) ON DELETE CASCADE
-        );
-    `);
-
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages (timestamp);`,
-  );
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS idx_messages_chat_jid ON messages (chat_jid);`,
-  );
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages (sender);`,
-  );
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS idx_chats_last_message_time ON chats (last_message_time);`,
-  );
-
-  // Fix corrupted "undefined" strings written by earlier bug
-  db.exec(`UPDATE chats SET last_message_time = NULL WHERE last_message_time = 'undefined'`);
-
-  return db;
+/** Stores a policy rule. Throws if it can't be persisted. */
+export function addPolicyRule(rule: Omit<PolicyRule, "id">): PolicyRule {
+  const db = getDb();
+  const result = db
+    .prepare(`
+            INSERT INTO policy_rules (action, effect, pattern, note, created_at)
+            VALUES (?, ?, ?, ?, ?)
+        `)
+    .run(rule.action, rule.effect, rule.pattern, rule.note, new Date().toISOString());
+  return { ...rule, id: Number(result.lastInsertRowid) };
 }
 
-export function storeChat(chat: Partial<Chat> & { jid: string }): void {
+export function removePolicyRule(id: number): boolean {
   const db = getDb();
   try {
-    const stmt = db.prepare(`
-            INSERT INTO chats (jid, name, last_message_time)
-            VALUES (@jid, @name, @last_message_time)
-            ON CONFLICT(jid) DO UPDATE SET
-                name = CASE WHEN excluded.name IS NOT NULL THEN excluded.name ELSE name END,
-                last_message_time = COALESCE(excluded.last_message_time, last_message_time)
-        `);
-    stmt.run({
-      jid: chat.jid,
-      name: chat.name ?? null,
-      last_message_time:
-        chat.last_message_time instanceof Date
-          ? chat.last_message_time.toISOString()
-          : null,
-    });
+    const result = db.prepare(`DELETE FROM policy_rules WHERE id = ?`).run(id);
+    return Number(result.changes) > 0;
   } catch (error) {
-    console.error("Error storing chat:", error);
+    console.error("Error removing policy rule:", error);
+    return false;
   }
 }
 
-export function storeMessage(message: Message): void {
+export function getPolicyDefaults(): Partial<Record<PolicyAction, PolicyEffect>> {
   const db = getDb();
   try {
-    storeChat({ jid: message.chat_jid, last_message_time: message.timestamp });
+    const rows = db.prepare(`SELECT action, effect FROM policy_defaults`).all() as any[];
+    return Object.fromEntries(rows.map((row) => [row.action, row.effect]));
+  } catch (error) {
+    console.error("Error getting policy defaults:", error);
+    return {};
+  }
+}
 
-    const stmt = db.prepare(`
-            INSERT OR REPLACE INTO messages (id, chat_jid, sender, content, timestamp, is_from_me)
-            VALUES (@id, @chat_jid, @sender, @content, @timestamp, @is_from_me)
-        `);
+/** Sets the effect for an action when no rule matches; null clears it. */
+export function setPolicyDefault(action: PolicyAction, effect: PolicyEffect | null): void {
+  const db = getDb();
+  if (effect === null) {
+    db.prepare(`DELETE FROM policy_defaults WHERE action = ?`).run(action);
+    return;
+  }
+  db.prepare(`
+            INSERT INTO policy_defaults (action, effect) VALUES (?, ?)
+            ON CONFLICT(action) DO UPDATE SET effect = excluded.effect
+        `).run(action, effect);
+}
 
-    stmt.run({
-      id: message.id,
-      chat_jid: message.chat_jid,
-      sender: message.sender ?? null,
-      content: message.content,
-      timestamp: message.timestamp.toISOString(),
-      is_from_me: message.is_from_me ? 1 : 0,
+/** Appends an audit entry. Failures are logged but never block the action. */
+export function recordAuditEntry(entry: AuditEntry): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+            INSERT INTO audit_log (timestamp, tool, status, chat_jid, content_preview, content_sha256, message_id, outbox_id, schedule_id, error, client_name, client_version, session_id, details)
+            VALUES (@timestamp, @tool, @status, @chat_jid, @content_preview, @content_sha256, @message_id, @outbox_id, @schedule_id, @error, @client_name, @client_version, @session_id, @details)
+        `).run({
+      timestamp: entry.timestamp.toISOString(),
+      tool: entry.tool,
+      status: entry.status,
+      chat_jid: entry.chat_jid ?? null,
+      content_preview: entry.content_preview ?? null,
+      content_sha256: entry.content_sha256 ?? null,
+      message_id: entry.message_id ?? null,
+      outbox_id: entry.outbox_id ?? null,
+      schedule_id: entry.schedule_id ?? null,
+      error: entry.error ?? null,
+      client_name: entry.client_name ?? null,
+      client_version: entry.client_version ?? null,
+      session_id: entry.session_id ?? null,
+      details: entry.details ? JSON.stringify(entry.details) : null,
     });
+  } catch (error) {
+    console.error("Error recording audit entry:", error);
+  }
+}
 
-    const updateChatTimeStmt = db.prepare(`
-            UPDATE chats
-            SET last_message_time = MAX(COALESCE(last_message_time, '1970-01-01T00:00:00.000Z'), @timestamp)
-            WHERE jid = @jid
-        `);
-    updateChatTimeStmt.run({
-      timestamp: message.timestamp.toISOString(),
-      jid: message.chat_jid,
-    });
+/** Newest first; each entry carries the current state of its outbox item. */
+export function getAuditLog(
+  filter: AuditLogFilter = {},
+  limit: number = 50,
+  page: number = 0,
+): AuditEntry[] {
+  const db = getDb();
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.since) {
+      conditions.push("a.timestamp >= ?");
+      params.push(filter.since.toISOString());
+    }
+    if (filter.until) {
+      conditions.push("a.timestamp <= ?");
+      params.push(filter.until.toISOString());
+    }
+    if (filter.tool) {
+      conditions.push("a.tool = ?");
+      params.push(filter.tool);
+    }
+    if (filter.chat_jid) {
+      conditions.push("a.chat_jid = ?");
+      params.push(filter.chat_jid);
+    }
+    if (filter.status) {
+      conditions.push("a.status = ?");
+      params.push(filter.status);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = db
+      .prepare(`
+            SELECT a.*, o.status as outbox_status, o.sent_message_id as outbox_message_id
+            FROM audit_log a
+            LEFT JOIN outbox o ON o.id = a.outbox_id
+            ${where}
+            ORDER BY a.timestamp DESC, a.id DESC
+            LIMIT ? OFFSET ?
+        `)
+      .all(...params, limit, page * limit) as any[];
+    return rows.map((row) => ({
+      id: row.id,
+      timestamp: parseDateSafe(row.timestamp)!,
+      tool: row.tool,
+      status: row.status as AuditStatus,
+      chat_jid: row.chat_jid,
+      content_preview: row.content_preview,
+      content_sha256: row.content_sha256,
+      message_id: row.message_id,
+      outbox_id: row.outbox_id,
+      schedule_id: row.schedule_id,
+      error: row.error,
+      client_name: row.client_name,
+      client_version: row.client_version,
+      session_id: row.session_id,
+      details: row.details ? JSON.parse(row.details) : null,
+      outbox_status: row.outbox_status ?? null,
+      outbox_message_id: row.outbox_message_id ?? null,
+    }));
   } catch (error) {
-    console.error("Error storing message:", error);
+    console.error("Error getting audit log:", error);
+    return [];
   }
 }
 
@@ -147,6 +1684,94 @@ function parseDateSafe(dateString: string | null | undefined): Date | null {
   }
 }
 
+// Rows fetched per query while a filter is dropping some
+const FILTERED_PAGE_BATCH = 200;
+
+/**
+ * Page `page` of the items `fetch(limit, offset)` returns that pass `keep`.
+ * Fetches batch after batch until the page is full or the rows run out, so a
+ * filter that drops most rows still fills the page instead of returning it
+ * short or empty.
+ */
+export function pageFiltered<T>(
+  fetch: (limit: number, offset: number) => T[],
+  keep: (item: T) => boolean,
+  limit: number,
+  page: number = 0,
+): T[] {
+  const wanted = (page + 1) * limit;
+  const batchSize = Math.max(limit, FILTERED_PAGE_BATCH);
+  const kept: T[] = [];
+  for (let offset = 0; kept.length < wanted; offset += batchSize) {
+    const batch = fetch(batchSize, offset);
+    kept.push(...batch.filter(keep));
+    if (batch.length < batchSize) break;
+  }
+  return kept.slice(page * limit, wanted);
+}
+
+// A chat's display name: the saved contact name for individual chats, else
+// the chat's own name (group subject), else what the contact calls themselves.
+// Needs `chats c` and `LEFT JOIN contacts ct ON ct.jid = c.jid`.
+const CHAT_NAME_SQL = `COALESCE(ct.name, c.name, ct.notify, ct.verified_name)`;
+
+// Columns and joins shared by every query that returns Message rows
+const MESSAGE_COLUMNS = `
+            m.*, ${CHAT_NAME_SQL} as chat_name,
+            mm.media_type, mm.mimetype as media_mimetype, mm.file_name as media_file_name,
+            mm.file_length as media_file_length, mm.url as media_url, mm.direct_path as media_direct_path,
+            mm.media_key, mm.file_sha256 as media_file_sha256, mm.file_enc_sha256 as media_file_enc_sha256,
+            mm.media_key_timestamp, mm.cache_path as media_cache_path,
+            ml.latitude as location_latitude, ml.longitude as location_longitude,
+            ml.name as location_name, ml.address as location_address, ml.url as location_url,
+            ml.is_live as location_is_live,
+            (SELECT json_group_array(json_object(
+                'display_name', mc.display_name, 'phone_numbers', json(mc.phone_numbers), 'vcard', mc.vcard
+            )) FROM (
+                SELECT * FROM message_contacts
+                WHERE message_id = m.id AND chat_jid = m.chat_jid
+                ORDER BY position
+            ) mc) as shared_contacts,
+            (SELECT json_group_object(emoji, n) FROM (
+                SELECT r.emoji, COUNT(*) AS n FROM reactions r
+                WHERE r.message_id = m.id AND r.chat_jid = m.chat_jid
+                GROUP BY r.emoji
+            )) as reaction_counts`;
+const MESSAGE_JOINS = `
+            JOIN chats c ON m.chat_jid = c.jid
+            LEFT JOIN contacts ct ON ct.jid = c.jid
+            LEFT JOIN message_media mm ON mm.message_id = m.id AND mm.chat_jid = m.chat_jid
+            LEFT JOIN message_locations ml ON ml.message_id = m.id AND ml.chat_jid = m.chat_jid`;
+
+function rowToMedia(row: any): MessageMedia | null {
+  if (!row.media_type) return null;
+  return {
+    media_type: row.media_type,
+    mimetype: row.media_mimetype,
+    file_name: row.media_file_name,
+    file_length: row.media_file_length,
+    url: row.media_url,
+    direct_path: row.media_direct_path,
+    media_key: row.media_key,
+    file_sha256: row.media_file_sha256,
+    file_enc_sha256: row.media_file_enc_sha256,
+    media_key_timestamp: row.media_key_timestamp,
+    cache_path: row.media_cache_path,
+  };
+}
+
+function rowToLocation(row: any): MessageLocation | null {
+  if (row.location_latitude == null) return null;
+  return {
+    latitude: row.location_latitude,
+    longitude: row.location_longitude,
+    name: row.location_name,
+    address: row.location_address,
+    url: row.location_url,
+    is_live: Boolean(row.location_is_live),
+  };
+}
+
 function rowToMessage(row: any): Message {
   return {
     id: row.id,
@@ -156,6 +1781,14 @@ function rowToMessage(row: any): Message {
     timestamp: parseDateSafe(row.timestamp)!,
     is_from_me: Boolean(row.is_from_me),
     chat_name: row.chat_name,
+    snippet: row.snippet,
+    media: rowToMedia(row),
+    location: rowToLocation(row),
+    contacts: row.shared_contacts ? JSON.parse(row.shared_contacts) : [],
+    edited_at: parseDateSafe(row.edited_at),
+    deleted_at: parseDateSafe(row.deleted_at),
+    reactions: row.reaction_counts ? JSON.parse(row.reaction_counts) : {},
+    status: row.status != null ? (MESSAGE_STATUSES[row.status] ?? null) : null,
   };
 }
 
@@ -168,6 +1801,9 @@ function rowToChat(row: any): Chat {
     last_sender: row.last_sender,
     last_is_from_me:
       row.last_is_from_me !== null ? Boolean(row.last_is_from_me) : null,
+    unread_count: row.unread_count ?? 0,
+    last_read_at: parseDateSafe(row.last_read_at),
+    muted_until: parseDateSafe(row.muted_until),
   };
 }
 
@@ -180,9 +1816,8 @@ export function getMessages(
   try {
     const offset = page * limit;
     const stmt = db.prepare(`
-            SELECT m.*, c.name as chat_name
-            FROM messages m
-            JOIN chats c ON m.chat_jid = c.jid
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
             WHERE m.chat_jid = ? -- Positional parameter 1
             ORDER BY m.timestamp DESC
             LIMIT ?             -- Positional parameter 2
@@ -196,6 +1831,94 @@ export function getMessages(
   }
 }
 
+/**
+ * A chat's messages from `since` (inclusive) to `until` (exclusive), oldest
+ * first, for reading a whole conversation in batches.
+ */
+export function getMessagesInRange(
+  chatJid: string,
+  since: Date | null,
+  until: Date | null,
+  limit: number,
+  offset: number = 0,
+): Message[] {
+  const db = getDb();
+  try {
+    const stmt = db.prepare(`
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
+            WHERE m.chat_jid = @chat_jid
+              AND (@since IS NULL OR m.timestamp >= @since)
+              AND (@until IS NULL OR m.timestamp < @until)
+            ORDER BY m.timestamp ASC, m.id ASC
+            LIMIT @limit OFFSET @offset
+        `);
+    const rows = stmt.all({
+      chat_jid: chatJid,
+      since: since?.toISOString() ?? null,
+      until: until?.toISOString() ?? null,
+      limit,
+      offset,
+    }) as any[];
+    return rows.map(rowToMessage);
+  } catch (error) {
+    console.error("Error getting messages in range:", error);
+    return [];
+  }
+}
+
+/**
+ * The newest `limit` messages at or after `since`, newest first, in one chat
+ * or (with a null `chatJid`) across all chats, skipping the first `offset`.
+ */
+export function getRecentMessages(
+  chatJid: string | null,
+  since: Date,
+  limit: number,
+  offset: number = 0,
+): Message[] {
+  const db = getDb();
+  try {
+    const stmt = db.prepare(`
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
+            WHERE (@chat_jid IS NULL OR m.chat_jid = @chat_jid)
+              AND m.timestamp >= @since
+            ORDER BY m.timestamp DESC, m.id DESC
+            LIMIT @limit OFFSET @offset
+        `);
+    const rows = stmt.all({ chat_jid: chatJid, since: since.toISOString(), limit, offset }) as any[];
+    return rows.map(rowToMessage);
+  } catch (error) {
+    console.error("Error getting recent messages:", error);
+    return [];
+  }
+}
+
+/**
+ * A chat's newest `limit` incoming messages after its last-read marker (all
+ * of them when it has none), newest first. Our own messages are never unread.
+ */
+export function getUnreadMessages(chatJid: string, limit: number): Message[] {
+  const db = getDb();
+  try {
+    const stmt = db.prepare(`
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
+            WHERE m.chat_jid = @chat_jid
+              AND m.is_from_me = 0
+              AND (c.last_read_at IS NULL OR m.timestamp > c.last_read_at)
+            ORDER BY m.timestamp DESC, m.id DESC
+            LIMIT @limit
+        `);
+    const rows = stmt.all({ chat_jid: chatJid, limit }) as any[];
+    return rows.map(rowToMessage);
+  } catch (error) {
+    console.error("Error getting unread messages:", error);
+    return [];
+  }
+}
+
 export function getChats(
   limit: number = 20,
   page: number = 0,
@@ -209,8 +1932,11 @@ export function getChats(
     let sql = `
             SELECT
                 c.jid,
-                c.name,
-                c.last_message_time
+                ${CHAT_NAME_SQL} as name,
+                c.last_message_time,
+                c.unread_count,
+                c.last_read_at,
+                c.muted_until
                 ${
                   includeLastMessage
                     ? `,
@@ -221,19 +1947,26 @@ export function getChats(
                     : ""
                 }
             FROM chats c
+            LEFT JOIN contacts ct ON ct.jid = c.jid
+            -- Skip individual chats that have never had a message
+            WHERE (
+                c.jid LIKE '%@g.us'
+                OR c.last_message_time IS NOT NULL
+                OR EXISTS (SELECT 1 FROM messages m WHERE m.chat_jid = c.jid)
+            )
         `;
 
     const params: (string | number)[] = [];
 
     if (query) {
-      sql += ` WHERE (LOWER(c.name) LIKE LOWER(?) OR c.jid LIKE ?)`;
+      sql += ` AND (LOWER(${CHAT_NAME_SQL}) LIKE LOWER(?) OR c.jid LIKE ?)`;
       params.push(`%${query}%`, `%${query}%`);
     }
 
     const orderByClause =
       sortBy === "last_active"
         ? "c.last_message_time DESC NULLS LAST"
-        : "c.name ASC";
+        : "name ASC";
     sql += ` ORDER BY ${orderByClause}, c.jid ASC`;
 
     sql += ` LIMIT ? OFFSET ?`;
@@ -257,8 +1990,11 @@ export function getChat(
     let sql = `
             SELECT
                 c.jid,
-                c.name,
-                c.last_message_time
+                ${CHAT_NAME_SQL} as name,
+                c.last_message_time,
+                c.unread_count,
+                c.last_read_at,
+                c.muted_until
                 ${
                   includeLastMessage
                     ? `,
@@ -269,6 +2005,7 @@ export function getChat(
                     : ""
                 }
             FROM chats c
+            LEFT JOIN contacts ct ON ct.jid = c.jid
             WHERE c.jid = ? -- Positional parameter 1
         `;
 
@@ -295,9 +2032,8 @@ export function getMessagesAround(
 
   try {
     const targetStmt = db.prepare(`
-             SELECT m.*, c.name as chat_name
-             FROM messages m
-             JOIN chats c ON m.chat_jid = c.jid
+             SELECT ${MESSAGE_COLUMNS}
+             FROM messages m ${MESSAGE_JOINS}
              WHERE m.id = ? -- Positional parameter 1
         `);
     const targetRow = targetStmt.get(messageId) as any | undefined;
@@ -310,9 +2046,8 @@ export function getMessagesAround(
     const chatJid = result.target.chat_jid;
 
     const beforeStmt = db.prepare(`
-            SELECT m.*, c.name as chat_name
-            FROM messages m
-            JOIN chats c ON m.chat_jid = c.jid
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
             WHERE m.chat_jid = ? AND m.timestamp < ? -- Positional params 1, 2
             ORDER BY m.timestamp DESC
             LIMIT ?                                  -- Positional param 3
@@ -325,9 +2060,8 @@ export function getMessagesAround(
     result.before = beforeRows.map(rowToMessage).reverse();
 
     const afterStmt = db.prepare(`
-            SELECT m.*, c.name as chat_name
-            FROM messages m
-            JOIN chats c ON m.chat_jid = c.jid
+            SELECT ${MESSAGE_COLUMNS}
+            FROM messages m ${MESSAGE_JOINS}
             WHERE m.chat_jid = ? AND m.timestamp > ? -- Positional params 1, 2
             ORDER BY m.timestamp ASC
             LIMIT ?                                  -- Positional param 3
@@ -342,70 +2076,491 @@ export function getMessagesAround(
   }
 }
 
-export function searchDbForContacts(
+function rowToContact(row: any): Contact {
+  return {
+    jid: row.jid,
+    name: row.name,
+    notify: row.notify,
+    verified_name: row.verified_name,
+    phone: row.phone,
+    lid: row.lid,
+    sources: JSON.parse(row.sources || "{}"),
+    updated_at: new Date(row.updated_at),
+  };
+}
+
+function upsertContactRow(db: DatabaseSync, contact: Omit<Contact, "sources" | "updated_at">, source: string): void {
+  const existing = db.prepare(`SELECT sources FROM contacts WHERE jid = ?`).get(contact.jid) as
+    | { sources: string }
+    | undefined;
+  const sources = JSON.parse(existing?.sources || "{}");
+  const values: Record<string, string | null> = {};
+  for (const field of CONTACT_FIELDS) {
+    const value = contact[field]?.trim() || null;
+    values[field] = value;
+    if (value) sources[field] = source;
+  }
+  db.prepare(`
+            INSERT INTO contacts (jid, name, notify, verified_name, phone, lid, sources, updated_at)
+            VALUES (@jid, @name, @notify, @verified_name, @phone, @lid, @sources, @updated_at)
+            ON CONFLICT(jid) DO UPDATE SET
+                name = COALESCE(excluded.name, name),
+                notify = COALESCE(excluded.notify, notify),
+                verified_name = COALESCE(excluded.verified_name, verified_name),
+                phone = COALESCE(excluded.phone, phone),
+                lid = COALESCE(excluded.lid, lid),
+                sources = excluded.sources,
+                updated_at = excluded.updated_at
+        `).run({
+    jid: contact.jid,
+    ...values,
+    sources: JSON.stringify(sources),
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Creates or updates a contact. Only the fields present in `contact` are
+ * written; each one is recorded as coming from `source`.
+ */
+export function storeContact(contact: Omit<Contact, "sources" | "updated_at">, source: string): void {
+  const db = getDb();
+  try {
+    upsertContactRow(db, contact, source);
+  } catch (error) {
+    console.error("Error storing contact:", error);
+  }
+}
+
+/** Like storeContact for many contacts at once, in a single transaction. */
+export function storeContacts(contacts: Omit<Contact, "sources" | "updated_at">[], source: string): void {
+  const db = getDb();
+  try {
+    transaction(() => {
+      for (const contact of contacts) {
+        upsertContactRow(db, contact, source);
+      }
+    });
+  } catch (error) {
+    console.error("Error storing contacts:", error);
+  }
+}
+
+export function getContact(jid: string): Contact | null {
+  const db = getDb();
+  try {
+    const row = db.prepare(`SELECT * FROM contacts WHERE jid = ?`).get(jid);
+    return row ? rowToContact(row) : null;
+  } catch (error) {
+    console.error("Error getting contact:", error);
+    return null;
+  }
+}
+
+/**
+ * The other JIDs a contact is known under: its phone-number JID for a LID and
+ * its LID for a phone-number JID, from the contacts table. Includes `jid`.
+ */
+export function getJidAliases(jid: string): string[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`SELECT jid, phone, lid FROM contacts WHERE jid = @jid OR lid = @jid`)
+      .all({ jid }) as { jid: string; phone: string | null; lid: string | null }[];
+    const aliases = new Set([jid]);
+    for (const row of rows) {
+      aliases.add(row.jid);
+      if (row.lid) aliases.add(row.lid);
+      if (row.phone) aliases.add(`${row.phone}@s.whatsapp.net`);
+    }
+    return [...aliases];
+  } catch (error) {
+    console.error("Error getting JID aliases:", error);
+    return [jid];
+  }
+}
+
+/**
+ * Display names (saved name, else push name, else business name) for the
+ * given JIDs, matching contacts by phone-number JID or by LID. JIDs without a
+ * known name are left out.
+ */
+export function getContactNames(jids: string[]): Map<string, string> {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT j.value AS jid, COALESCE(ct.name, ct.notify, ct.verified_name) AS name
+            FROM json_each(?) j
+            JOIN contacts ct ON ct.jid = j.value OR ct.lid = j.value
+            WHERE COALESCE(ct.name, ct.notify, ct.verified_name) IS NOT NULL
+            ORDER BY ct.jid = j.value DESC, ct.name IS NULL
+        `)
+      .all(JSON.stringify([...new Set(jids)])) as { jid: string; name: string }[];
+    const names = new Map<string, string>();
+    for (const row of rows) {
+      if (!names.has(row.jid)) names.set(row.jid, row.name);
+    }
+    return names;
+  } catch (error) {
+    console.error("Error getting contact names:", error);
+    return new Map();
+  }
+}
+
+/**
+ * JIDs of the contacts whose saved, push or business name is exactly `name`
+ * (ignoring case), contacts with a saved name first.
+ */
+export function findContactJidsByName(name: string): string[] {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT jid FROM contacts
+            WHERE name = @name COLLATE NOCASE
+               OR notify = @name COLLATE NOCASE
+               OR verified_name = @name COLLATE NOCASE
+            ORDER BY name IS NULL, jid
+        `)
+      .all({ name }) as { jid: string }[];
+    return rows.map((row) => row.jid);
+  } catch (error) {
+    console.error("Error finding contacts by name:", error);
+    return [];
+  }
+}
+
+/**
+ * Returns the JIDs among `jids` that WhatsApp has told us about: they have a
+ * chat, are a group member, or have contact details from a source other than
+ * an address-book import.
+ */
+export function getKnownWhatsAppJids(jids: string[]): Set<string> {
+  const db = getDb();
+  try {
+    const rows = db
+      .prepare(`
+            SELECT j.value AS jid FROM json_each(?) j
+            WHERE EXISTS (SELECT 1 FROM chats WHERE jid = j.value)
+               OR EXISTS (
+                   SELECT 1 FROM group_participants
+                   WHERE participant_jid = j.value OR phone_number = j.value
+               )
+               OR EXISTS (
+                   SELECT 1 FROM contacts ct, json_each(ct.sources) s
+                   WHERE ct.jid = j.value AND s.value != 'import'
+               )
+        `)
+      .all(JSON.stringify(jids)) as { jid: string }[];
+    return new Set(rows.map((row) => row.jid));
+  } catch (error) {
+    console.error("Error looking up known JIDs:", error);
+    return new Set();
+  }
+}
+
+/**
+ * Searches saved names, push names, business names, phone numbers and JIDs.
+ * Contacts with a saved name sort first.
+ */
+export function searchDbForContacts(query: string, limit: number = 20, offset: number = 0): Contact[] {
+  const db = getDb();
+  try {
+    const searchPattern = `%${query}%`;
+    const stmt = db.prepare(`
+            SELECT * FROM contacts
+            WHERE (
+                name LIKE @pattern OR notify LIKE @pattern OR verified_name LIKE @pattern
+                OR phone LIKE @pattern OR jid LIKE @pattern
+            )
+              AND jid NOT LIKE '%@g.us'
+            ORDER BY name IS NULL, COALESCE(name, notify, verified_name) COLLATE NOCASE, jid
+            LIMIT @limit OFFSET @offset
+        `);
+    const rows = stmt.all({ pattern: searchPattern, limit, offset }) as any[];
+    return rows.map(rowToContact);
+  } catch (error) {
+    console.error("Error searching contacts:", error);
+    return [];
+  }
+}
+
+function insertGroupMembers(db: DatabaseSync, groupJid: string, members: GroupMember[]): void {
+  const stmt = db.prepare(`
+            INSERT INTO group_participants (group_jid, participant_jid, lid, phone_number, admin)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(group_jid, participant_jid) DO UPDATE SET
+                lid = COALESCE(excluded.lid, lid),
+                phone_number = COALESCE(excluded.phone_number, phone_number),
+                admin = excluded.admin
+        `);
+  for (const member of members) {
+    stmt.run(groupJid, member.jid, member.lid ?? null, member.phone_number ?? null, member.admin ?? null);
+  }
+}
+
+function upsertGroupRow(db: DatabaseSync, group: Group): void {
+  // Fields missing from a partial update keep their stored value
+  db.prepare(`
+            INSERT INTO groups (
+                jid, subject, owner, description, created_at, announce, restrict,
+                is_community, linked_parent, addressing_mode, ephemeral_duration, updated_at
+            )
+            VALUES (
+                @jid, @subject, @owner, @description, @created_at, COALESCE(@announce, 0), COALESCE(@restrict, 0),
+                COALESCE(@is_community, 0), @linked_parent, @addressing_mode, @ephemeral_duration, @updated_at
+            )
+            ON CONFLICT(jid) DO UPDATE SET
+                subject = COALESCE(excluded.subject, subject),
+                owner = COALESCE(excluded.owner, owner),
+                description = COALESCE(excluded.description, description),
+                created_at = COALESCE(excluded.created_at, created_at),
+                announce = COALESCE(@announce, announce),
+                restrict = COALESCE(@restrict, restrict),
+                is_community = COALESCE(@is_community, is_community),
+                linked_parent = COALESCE(excluded.linked_parent, linked_parent),
+                addressing_mode = COALESCE(excluded.addressing_mode, addressing_mode),
+                ephemeral_duration = COALESCE(excluded.ephemeral_duration, ephemeral_duration),
+                updated_at = excluded.updated_at
+        `).run({
+    jid: group.jid,
+    subject: group.subject ?? null,
+    owner: group.owner ?? null,
+    description: group.description ?? null,
+    created_at: group.created_at?.toISOString() ?? null,
+    announce: group.announce === undefined ? null : group.announce ? 1 : 0,
+    restrict: group.restrict === undefined ? null : group.restrict ? 1 : 0,
+    is_community: group.is_community === undefined ? null : group.is_community ? 1 : 0,
+    linked_parent: group.linked_parent ?? null,
+    addressing_mode: group.addressing_mode ?? null,
+    ephemeral_duration: group.ephemeral_duration ?? null,
+    updated_at: (group.updated_at ?? new Date()).toISOString(),
+  });
+  if (group.subject) {
+    storeChat({ jid: group.jid, name: group.subject });
+  }
+}
+
+/**
+ * Upserts a group. Fields left undefined keep their stored value, so partial
+ * updates from `groups.update` can be applied directly. When `participants`
+ * is given it replaces the stored member list.
+ */
+export function storeGroup(group: Group): void {
+  const db = getDb();
+  try {
+    transaction(() => {
+      upsertGroupRow(db, group);
+      if (group.participants) {
+        db.prepare(`DELETE FROM group_participants WHERE group_jid = ?`).run(group.jid);
+        insertGroupMembers(db, group.jid, group.participants);
+      }
+    });
+  } catch (error) {
+    console.error("Error storing group:", error);
+  }
+}
+
+/**
+ * Replaces the stored groups with a full list from WhatsApp: listed groups are
+ * upserted with their members, and groups we're no longer in are removed.
+ */
+export function syncGroups(groups: Group[]): void {
+  const db = getDb();
+  try {
+    transaction(() => {
+      for (const group of groups) {
+        upsertGroupRow(db, group);
+        db.prepare(`DELETE FROM group_participants WHERE group_jid = ?`).run(group.jid);
+        insertGroupMembers(db, group.jid, group.participants ?? []);
+      }
+      const keep = JSON.stringify(groups.map((group) => group.jid));
+      db.prepare(`DELETE FROM group_participants WHERE group_jid NOT IN (SELECT value FROM json_each(?))`).run(keep);
+      db.prepare(`DELETE FROM groups WHERE jid NOT IN (SELECT value FROM json_each(?))`).run(keep);
+    });
+  } catch (error) {
+    console.error("Error syncing groups:", error);
+  }
+}
+
+/** Applies a group-participants.update event to the stored member list. */
+export function applyGroupParticipantsChange(
+  groupJid: string,
+  members: GroupMember[],
+  action: "add" | "remove" | "promote" | "demote" | "modify",
+): void {
+  const db = getDb();
+  try {
+    transaction(() => {
+      if (action === "remove") {
+        const stmt = db.prepare(`
+            DELETE FROM group_participants
+            WHERE group_jid = ? AND (participant_jid = ? OR lid = ? OR phone_number = ?)
+        `);
+        for (const member of members) {
+          stmt.run(groupJid, member.jid, member.jid, member.jid);
+        }
+      } else if (action === "promote" || action === "demote") {
+        const stmt = db.prepare(`
+            UPDATE group_participants SET admin = ?
+            WHERE group_jid = ? AND (participant_jid = ? OR lid = ? OR phone_number = ?)
+        `);
+        for (const member of members) {
+          stmt.run(action === "promote" ? "admin" : null, groupJid, member.jid, member.jid, member.jid);
+        }
+      } else {
+        insertGroupMembers(db, groupJid, members);
+      }
+      db.prepare(`UPDATE groups SET updated_at = ? WHERE jid = ?`).run(new Date().toISOString(), groupJid);
+    });
+  } catch (error) {
+    console.error("Error applying group participants change:", error);
+  }
+}
+
+/** Forgets a group we left or were removed from. */
+export function removeGroup(jid: string): void {
+  const db = getDb();
+  try {
+    db.prepare(`DELETE FROM group_participants WHERE group_jid = ?`).run(jid);
+    db.prepare(`DELETE FROM groups WHERE jid = ?`).run(jid);
+  } catch (error) {
+    console.error("Error removing group:", error);
+  }
+}
+
+export function getGroup(jid: string): Group | null {
+  const db = getDb();
+  try {
+    const row = db.prepare(`SELECT * FROM groups WHERE jid = ?`).get(jid) as any;
+    if (!row) return null;
+    const members = db
+      .prepare(`
+            SELECT * FROM group_participants WHERE group_jid = ?
+            ORDER BY CASE admin WHEN 'superadmin' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, participant_jid
+        `)
+      .all(jid) as any[];
+    return {
+      jid: row.jid,
+      subject: row.subject,
+      owner: row.owner,
+      description: row.description,
+      created_at: parseDateSafe(row.created_at),
+      announce: Boolean(row.announce),
+      restrict: Boolean(row.restrict),
+      is_community: Boolean(row.is_community),
+      linked_parent: row.linked_parent,
+      addressing_mode: row.addressing_mode,
+      ephemeral_duration: row.ephemeral_duration,
+      updated_at: parseDateSafe(row.updated_at)!,
+      participants: members.map((member) => ({
+        jid: member.participant_jid,
+        lid: member.lid,
+        phone_number: member.phone_number,
+        admin: member.admin,
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting group:", error);
+    return null;
+  }
+}
+
+/**
+ * Case-insensitive group search by name. Until the first group sync has
+ * filled the groups table, group chats named in chat history are searched.
+ */
+export function searchGroups(
   query: string,
   limit: number = 20,
 ): Pick<Chat, "jid" | "name">[] {
   const db = getDb();
   try {
     const searchPattern = `%${query}%`;
-    const stmt = db.prepare(`
-            SELECT DISTINCT jid, name
-            FROM chats
-            WHERE (LOWER(name) LIKE LOWER(?) OR jid LIKE ?) -- Positional params 1, 2
-              AND jid NOT LIKE '%@g.us' -- Exclude groups
+    const rows = db
+      .prepare(`
+            SELECT jid, subject AS name FROM groups
+            WHERE subject LIKE ? COLLATE NOCASE
+            UNION
+            SELECT jid, name FROM chats
+            WHERE jid LIKE '%@g.us' AND name LIKE ? COLLATE NOCASE
+              AND NOT EXISTS (SELECT 1 FROM groups)
             ORDER BY name ASC, jid ASC
-            LIMIT ?                                         -- Positional param 3
-        `);
-    const rows = stmt.all(searchPattern, searchPattern, limit) as Pick<
-      Chat,
-      "jid" | "name"
-    >[];
+            LIMIT ?
+        `)
+      .all(searchPattern, searchPattern, limit) as { jid: string; name: string | null }[];
     return rows.map((row) => ({ jid: row.jid, name: row.name ?? null }));
   } catch (error) {
-    console.error("Error searching contacts:", error);
+    console.error("Error searching groups:", error);
     return [];
   }
 }
 
+/**
+ * Full-text search over message content using the messages_fts index.
+ * `searchQuery` is passed through as an FTS5 MATCH expression, so phrases
+ * ("quoted text"), prefixes (deploy*) and boolean operators (AND/OR/NOT) work.
+ * Throws on malformed query syntax so callers can report it back.
+ */
 export function searchMessages(
   searchQuery: string,
-  chatJid?: string | null, 
+  chatJid?: string | null,
   limit: number = 10,
   page: number = 0,
+  orderBy: MessageSearchOrder = "relevance",
 ): Message[] {
   const db = getDb();
   try {
     const offset = page * limit;
-    const searchPattern = `%${searchQuery}%`;
     let sql = `
-            SELECT m.*, c.name as chat_name
-            FROM messages m
-            JOIN chats c ON m.chat_jid = c.jid
-            WHERE LOWER(m.content) LIKE LOWER(?) -- Param 1: searchPattern
+            SELECT ${MESSAGE_COLUMNS},
+                   snippet(messages_fts, 0, '**', '**', '…', 16) as snippet
+            FROM messages_fts
+            JOIN messages m ON m.seq = messages_fts.rowid ${MESSAGE_JOINS}
+            WHERE messages_fts MATCH ? -- Param 1: FTS5 query
         `;
-    const params: (string | number | null)[] = [searchPattern];
+    const params: (string | number | null)[] = [searchQuery];
 
     if (chatJid) {
-      sql += ` AND m.chat_jid = ?`; 
+      sql += ` AND m.chat_jid = ?`;
       params.push(chatJid);
     }
 
-    sql += ` ORDER BY m.timestamp DESC`;
+    const orderByClause =
+      orderBy === "relevance"
+        ? "bm25(messages_fts), m.timestamp DESC"
+        : orderBy === "oldest"
+          ? "m.timestamp ASC"
+          : "m.timestamp DESC";
+    sql += ` ORDER BY ${orderByClause}`;
     sql += ` LIMIT ?`;
     params.push(limit);
-    sql += ` OFFSET ?`; 
+    sql += ` OFFSET ?`;
     params.push(offset);
 
     const stmt = db.prepare(sql);
-    const rows = stmt.all(...params) as any[]; 
+    const rows = stmt.all(...params) as any[];
     return rows.map(rowToMessage);
-  } catch (error) {
+  } catch (error: any) {
+    if (isFtsQueryError(error)) {
+      throw new Error(`Invalid search query "${searchQuery}": ${error.message}`);
+    }
     console.error("Error searching messages:", error);
     return [];
   }
 }
 
+function isFtsQueryError(error: any): boolean {
+  const message = String(error?.message ?? "");
+  return (
+    message.includes("fts5: syntax error") ||
+    message.includes("unterminated string") ||
+    message.includes("no such column") ||
+    message.includes("unknown special query")
+  );
+}
+
 export function closeDatabase(): void {
   if (dbInstance) {
     try {
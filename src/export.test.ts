@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { type ChatInfo, type ExportedMessage, createRenderer } from "./export.ts";
+
+const CHAT: ChatInfo = {
+  jid: "14155550123@s.whatsapp.net",
+  name: "Alice",
+  since: null,
+  until: null,
+  exported_at: new Date("2024-05-01T12:00:00Z"),
+};
+
+function locationMessage(url: string | null): ExportedMessage {
+  return {
+    id: "ABC",
+    chat_jid: CHAT.jid,
+    sender: CHAT.jid,
+    content: "[Location]",
+    timestamp: new Date("2024-05-01T10:00:00Z"),
+    is_from_me: false,
+    location: { latitude: 51.5, longitude: -0.12, url },
+    sender_name: "Alice",
+    text: "",
+    attachment: null,
+  };
+}
+
+describe("location links", () => {
+  it("replace non-web URLs with a map link in HTML", () => {
+    const html = createRenderer("html", CHAT).message(locationMessage("javascript:alert(document.cookie)"));
+    assert.ok(!html.includes("javascript:"));
+    assert.ok(html.includes('<a href="https://maps.google.com/?q=51.5,-0.12">Location</a>'));
+  });
+
+  it("replace non-web URLs with a map link in Markdown", () => {
+    const markdown = createRenderer("markdown", CHAT).message(locationMessage("javascript:alert(1)"));
+    assert.ok(!markdown.includes("javascript:"));
+    assert.ok(markdown.includes("[Location](https://maps.google.com/?q=51.5,-0.12)"));
+  });
+
+  it("keep web URLs, escaping what would end a Markdown link", () => {
+    const url = "https://example.com/place_(London)?q=a b";
+    const markdown = createRenderer("markdown", CHAT).message(locationMessage(url));
+    assert.ok(markdown.includes("[Location](https://example.com/place_%28London%29?q=a%20b)"));
+    const html = createRenderer("html", CHAT).message(locationMessage(url));
+    assert.ok(html.includes('<a href="https://example.com/place_(London)?q=a%20b">Location</a>'));
+  });
+
+  it("fall back to a map link without a URL", () => {
+    const text = createRenderer("txt", CHAT).message(locationMessage(null));
+    assert.ok(text.includes("location: https://maps.google.com/?q=51.5,-0.12"));
+  });
+});
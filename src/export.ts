@@ -0,0 +1,379 @@
+import path from "node:path";
+import fs from "node:fs";
+
+import { type Message, getChat, getContactNames, getMessagesInRange } from "./database.ts";
+
+const EXPORT_DIR = path.join(import.meta.dirname, "..", "data", "exports");
+// Messages read from the database per query while exporting
+const BATCH_SIZE = 1000;
+
+export const EXPORT_FORMATS = ["txt", "jsonl", "markdown", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  txt: ".txt",
+  jsonl: ".jsonl",
+  markdown: ".md",
+  html: ".html",
+};
+
+export type ChatExportOptions = {
+  format: ExportFormat;
+  /** Inclusive. */
+  since?: Date | null;
+  /** Exclusive. */
+  until?: Date | null;
+  /** Defaults to data/exports/<chat>-<time>.<ext>; an existing file is never overwritten. */
+  outputPath?: string | null;
+  /** A bare file name in data/exports/, for callers that mustn't write elsewhere. */
+  fileName?: string | null;
+};
+
+export type ChatExportResult = {
+  path: string;
+  format: ExportFormat;
+  messages: number;
+  first_message_at: Date;
+  last_message_at: Date;
+};
+
+export type ChatInfo = {
+  jid: string;
+  name: string;
+  since: Date | null;
+  until: Date | null;
+  exported_at: Date;
+};
+
+// A message with the sender's name, its text without the "[Image]"-style
+// placeholder, and the attachment's file name resolved
+export type ExportedMessage = Message & {
+  sender_name: string;
+  text: string;
+  attachment: string | null;
+};
+
+export type Renderer = {
+  header(): string;
+  message(message: ExportedMessage): string;
+  footer(): string;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+// Transcripts use the server's local time, like WhatsApp's own exports
+export const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+export const localTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// The sender chooses a location's URL, so only web links are kept; anything
+// else (e.g. javascript:) falls back to a map link for the coordinates
+function mapsUrl(message: Message): string | null {
+  const location = message.location;
+  if (!location) return null;
+  if (location.url && URL.canParse(location.url)) {
+    const url = new URL(location.url);
+    if (url.protocol === "http:" || url.protocol === "https:") return url.href;
+  }
+  return `https://maps.google.com/?q=${location.latitude},${location.longitude}`;
+}
+
+function describeRange(since: Date | null, until: Date | null): string {
+  if (!since && !until) return "all messages";
+  return `${since?.toISOString() ?? "beginning"} to ${until?.toISOString() ?? "now"}`;
+}
+
+function reactionSummary(message: Message): string {
+  return Object.entries(message.reactions ?? {})
+    .map(([emoji, count]) => (count > 1 ? `${emoji} ${count}` : emoji))
+    .join(" ");
+}
+
+/** WhatsApp's own "Export chat" text format (Android style, 24-hour clock). */
+function txtRenderer(): Renderer {
+  return {
+    header: () => "",
+    message: (message) => {
+      const date = message.timestamp;
+      const lines: string[] = [];
+      if (message.deleted_at) {
+        lines.push("This message was deleted");
+      } else {
+        if (message.media) {
+          lines.push(message.attachment ? `${message.attachment} (file attached)` : "<Media omitted>");
+        }
+        const url = mapsUrl(message);
+        if (url) lines.push(`location: ${url}`);
+        for (const contact of message.contacts ?? []) {
+          lines.push(`${contact.display_name ?? "Contact"}.vcf (file attached)`);
+        }
+        if (message.text && !url && !message.contacts?.length) lines.push(message.text);
+        if (message.edited_at) lines.push(`${lines.pop() ?? ""} <This message was edited>`);
+      }
+      const stamp = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}, ${localTime(date)}`;
+      return `${stamp} - ${message.sender_name}: ${lines.join("\n")}\n`;
+    },
+    footer: () => "",
+  };
+}
+
+function jsonlRenderer(): Renderer {
+  return {
+    header: () => "",
+    message: (message) =>
+      JSON.stringify({
+        id: message.id,
+        timestamp: message.timestamp.toISOString(),
+        sender_jid: message.sender ?? null,
+        sender_name: message.sender_name,
+        is_from_me: message.is_from_me,
+        text: message.deleted_at ? null : message.text,
+        ...(message.media
+          ? {
+              attachment: {
+                type: message.media.media_type,
+                file_name: message.attachment,
+                mimetype: message.media.mimetype ?? null,
+              },
+            }
+          : {}),
+        ...(message.location ? { location: message.location } : {}),
+        ...(message.contacts?.length
+          ? {
+              contacts: message.contacts.map((contact) => ({
+                display_name: contact.display_name,
+                phone_numbers: contact.phone_numbers,
+              })),
+            }
+          : {}),
+        edited: Boolean(message.edited_at),
+        deleted: Boolean(message.deleted_at),
+        reactions: message.reactions ?? {},
+      }) + "\n",
+    footer: () => "",
+  };
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_{}[\]<>#|])/g, "\\$1");
+}
+
+function markdownRenderer(chat: ChatInfo): Renderer {
+  let currentDay: string | null = null;
+  return {
+    header: () =>
+      `# ${escapeMarkdown(chat.name)}\n\n` +
+      `- Chat: \`${chat.jid}\`\n` +
+      `- Range: ${describeRange(chat.since, chat.until)}\n` +
+      `- Exported: ${chat.exported_at.toISOString()}\n`,
+    message: (message) => {
+      const day = localDate(message.timestamp);
+      const heading = day !== currentDay ? `\n## ${day}\n` : "";
+      currentDay = day;
+
+      const parts: string[] = [];
+      if (message.deleted_at) {
+        parts.push("*This message was deleted*");
+      } else {
+        if (message.text) parts.push(escapeMarkdown(message.text).split("\n").join("  \n"));
+        if (message.media) parts.push(`*Attachment: ${escapeMarkdown(message.attachment ?? message.media.media_type)}*`);
+        const url = mapsUrl(message);
+        if (url) parts.push(`[Location](${url.replace(/\(/g, "%28").replace(/\)/g, "%29")})`);
+        for (const contact of message.contacts ?? []) {
+          parts.push(`*Contact: ${escapeMarkdown(contact.display_name ?? "")} ${contact.phone_numbers.map((phone) => `+${phone}`).join(", ")}*`);
+        }
+        if (message.edited_at) parts.push("*(edited)*");
+      }
+      const reactions = reactionSummary(message);
+      if (reactions) parts.push(`Reactions: ${reactions}`);
+      return `${heading}\n**${localTime(message.timestamp)} ${escapeMarkdown(message.sender_name)}:** ${parts.join("  \n")}\n`;
+    },
+    footer: () => "",
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; background: #efeae2; margin: 0; padding: 1rem; }
+main { max-width: 48rem; margin: 0 auto; }
+header { background: #fff; border-radius: 8px; padding: 0.5rem 1rem; margin-bottom: 1rem; }
+.day { text-align: center; color: #54656f; font-size: 0.8rem; margin: 1rem 0 0.5rem; }
+.msg { background: #fff; border-radius: 8px; padding: 0.4rem 0.6rem; margin: 0.25rem 0; max-width: 75%; width: fit-content; }
+.msg.me { background: #d9fdd3; margin-left: auto; }
+.sender { font-weight: 600; font-size: 0.85rem; color: #1f7aad; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.meta, .note { color: #667781; font-size: 0.75rem; }
+.note { font-style: italic; }
+`;
+
+/** A single HTML page with inline styles and no external resources. */
+function htmlRenderer(chat: ChatInfo): Renderer {
+  let currentDay: string | null = null;
+  return {
+    header: () =>
+      `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n` +
+      `<meta name="viewport" content="width=device-width, initial-scale=1">\n` +
+      `<title>${escapeHtml(chat.name)}</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n<main>\n` +
+      `<header><h1>${escapeHtml(chat.name)}</h1>` +
+      `<p class="meta">${escapeHtml(chat.jid)} · ${escapeHtml(describeRange(chat.since, chat.until))} · exported ${escapeHtml(chat.exported_at.toISOString())}</p></header>\n`,
+    message: (message) => {
+      const day = localDate(message.timestamp);
+      const separator = day !== currentDay ? `<div class="day">${day}</div>\n` : "";
+      currentDay = day;
+
+      const body: string[] = [];
+      if (message.deleted_at) {
+        body.push(`<div class="note">This message was deleted</div>`);
+      } else {
+        if (message.media) {
+          body.push(`<div class="note">Attachment: ${escapeHtml(message.attachment ?? message.media.media_type)}</div>`);
+        }
+        if (message.text) body.push(`<div class="text">${escapeHtml(message.text)}</div>`);
+        const url = mapsUrl(message);
+        if (url) body.push(`<div><a href="${escapeHtml(url)}">Location</a></div>`);
+        for (const contact of message.contacts ?? []) {
+          const phones = contact.phone_numbers.map((phone) => `+${phone}`).join(", ");
+          body.push(`<div class="note">Contact: ${escapeHtml(`${contact.display_name ?? ""} ${phones}`.trim())}</div>`);
+        }
+      }
+      const meta = [
+        localTime(message.timestamp),
+        message.edited_at && !message.deleted_at ? "edited" : null,
+        reactionSummary(message) || null,
+      ].filter(Boolean);
+      return (
+        separator +
+        `<div class="msg${message.is_from_me ? " me" : ""}" title="${escapeHtml(message.timestamp.toISOString())}">` +
+        `<div class="sender">${escapeHtml(message.sender_name)}</div>${body.join("")}` +
+        `<div class="meta">${escapeHtml(meta.join(" · "))}</div></div>\n`
+      );
+    },
+    footer: () => `</main>\n</body>\n</html>\n`,
+  };
+}
+
+export function createRenderer(format: ExportFormat, chat: ChatInfo): Renderer {
+  switch (format) {
+    case "txt":
+      return txtRenderer();
+    case "jsonl":
+      return jsonlRenderer();
+    case "markdown":
+      return markdownRenderer(chat);
+    case "html":
+      return htmlRenderer(chat);
+  }
+}
+
+export function fallbackSenderName(jid: string): string {
+  const user = jid.split("@")[0].split(":")[0];
+  return jid.endsWith("@s.whatsapp.net") ? `+${user}` : user;
+}
+
+// Strips the "[Image]"-style placeholder stored for media, locations and
+// contact cards, leaving the caption; those parts are rendered separately
+function messageText(message: Message): string {
+  if (message.contacts?.length) return "";
+  if (!message.media && !message.location) return message.content;
+  const caption = message.content.replace(
+    /^\[(Image|Video|Document|Audio|Sticker|Location|Live location)\]\s*/,
+    "",
+  );
+  return caption === message.media?.file_name ? "" : caption;
+}
+
+function defaultExportPath(chat: ChatInfo, format: ExportFormat): string {
+  const slug = chat.name.replace(/[^\p{L}\p{N}._-]+/gu, "_").replace(/^_+|_+$/g, "").slice(0, 60) || "chat";
+  const stamp = chat.exported_at.toISOString().replace(/[-:]/g, "").replace(/\..*$/, "");
+  let candidate = path.join(EXPORT_DIR, `${slug}-${stamp}${EXTENSIONS[format]}`);
+  for (let n = 2; fs.existsSync(candidate); n++) {
+    candidate = path.join(EXPORT_DIR, `${slug}-${stamp}-${n}${EXTENSIONS[format]}`);
+  }
+  return candidate;
+}
+
+function exportDirPath(fileName: string): string {
+  if (fileName !== path.basename(fileName) || fileName.includes("\\") || fileName === "." || fileName === "..") {
+    throw new Error(`${fileName} is not a plain file name`);
+  }
+  return path.join(EXPORT_DIR, fileName);
+}
+
+/**
+ * Writes a chat, or the part of it between `since` and `until`, to a file.
+ * Messages are read in batches so large chats don't have to fit in memory.
+ * Throws when the range holds no messages or the output file already exists.
+ */
+export function exportChat(chatJid: string, options: ChatExportOptions): ChatExportResult {
+  const since = options.since ?? null;
+  const until = options.until ?? null;
+  const first = getMessagesInRange(chatJid, since, until, BATCH_SIZE);
+  if (!first.length) {
+    throw new Error(`No messages in ${chatJid} for ${describeRange(since, until)}`);
+  }
+
+  const chat: ChatInfo = {
+    jid: chatJid,
+    name: getChat(chatJid, false)?.name ?? fallbackSenderName(chatJid),
+    since,
+    until,
+    exported_at: new Date(),
+  };
+  const outputPath = path.resolve(
+    options.fileName
+      ? exportDirPath(options.fileName)
+      : options.outputPath || defaultExportPath(chat, options.format),
+  );
+  const renderer = createRenderer(options.format, chat);
+  const senderNames = new Map<string, string>();
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  let fd: number;
+  try {
+    fd = fs.openSync(outputPath, "wx");
+  } catch (error: any) {
+    if (error.code === "EEXIST") throw new Error(`${outputPath} already exists`);
+    throw error;
+  }
+  let count = 0;
+  let last = first[0];
+  try {
+    fs.writeSync(fd, renderer.header());
+    for (let batch = first; batch.length; batch = getMessagesInRange(chatJid, since, until, BATCH_SIZE, count)) {
+      const unknown = batch.map((message) => message.sender).filter((jid): jid is string => !!jid && !senderNames.has(jid));
+      for (const [jid, name] of getContactNames(unknown)) senderNames.set(jid, name);
+
+      const chunk = batch.map((message) => {
+        const sender = message.sender ?? (message.is_from_me ? null : chatJid);
+        return renderer.message({
+          ...message,
+          sender_name: message.is_from_me ? "You" : sender ? (senderNames.get(sender) ?? fallbackSenderName(sender)) : "Unknown",
+          text: messageText(message),
+          attachment: message.media
+            ? (message.media.file_name ?? (message.media.cache_path ? path.basename(message.media.cache_path) : null))
+            : null,
+        });
+      });
+      fs.writeSync(fd, chunk.join(""));
+      count += batch.length;
+      last = batch[batch.length - 1];
+      if (batch.length < BATCH_SIZE) break;
+    }
+    fs.writeSync(fd, renderer.footer());
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return {
+    path: outputPath,
+    format: options.format,
+    messages: count,
+    first_message_at: first[0].timestamp,
+    last_message_at: last.timestamp,
+  };
+}
@@ -0,0 +1,229 @@
+import http from "node:http";
+import crypto from "node:crypto";
+import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import P from "pino";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// How often sessions are checked for idleness
+const IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Every request except /health must carry `Authorization: Bearer <authToken>`. */
+  authToken: string;
+  /** Sessions with no request for this long, and none in flight, are closed. */
+  sessionIdleMs: number;
+}
+
+type Session = (
+  | { kind: "streamable"; transport: StreamableHTTPServerTransport; server: McpServer }
+  | { kind: "sse"; transport: SSEServerTransport; server: McpServer }
+) & {
+  lastSeen: number;
+  /** Requests (including open SSE streams) that haven't finished yet. */
+  openRequests: number;
+};
+
+// Carries the HTTP status to answer with when a request can't be served
+function httpError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Rejects with a 413 as soon as the body passes MAX_BODY_BYTES; the rest is
+// drained and dropped so the response still reaches the client.
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(httpError(413, "Request body too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (size > MAX_BODY_BYTES) return;
+      try {
+        const raw = Buffer.concat(chunks).toString("utf8");
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Serves MCP over HTTP so several clients can share one WhatsApp session.
+ * - `/mcp`: Streamable HTTP (POST/GET/DELETE), one session per `Mcp-Session-Id`
+ * - `/sse` + `/messages`: legacy HTTP+SSE transport for older clients
+ * - `/health`: unauthenticated liveness probe
+ * Each session gets its own McpServer from `createServer`; they all share the
+ * same socket and database. Sessions idle for `sessionIdleMs` are closed, so
+ * clients that vanish without a DELETE don't hold on to a server forever.
+ */
+export async function startHttpTransport(
+  createServer: () => McpServer,
+  logger: P.Logger,
+  options: HttpTransportOptions,
+): Promise<http.Server> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    session.server.close().catch(() => {});
+    logger.info({ sessionId, kind: session.kind, active: sessions.size }, "MCP HTTP session closed");
+  };
+
+  // Counts a request against a session until its response finishes
+  const track = (session: Session, res: http.ServerResponse) => {
+    session.openRequests++;
+    session.lastSeen = Date.now();
+    res.on("close", () => {
+      session.openRequests--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        logger.info({ sessionId }, "Closing idle MCP HTTP session");
+        closeSession(sessionId);
+      }
+    }
+  }, Math.min(IDLE_SWEEP_INTERVAL_MS, options.sessionIdleMs));
+  sweepTimer.unref();
+
+  const handleStreamable = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (existing.kind !== "streamable") {
+        sendJsonRpcError(res, 400, "Session belongs to the SSE transport");
+        return;
+      }
+      track(existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No valid session ID provided");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: "streamable", transport, server, lastSeen: Date.now(), openRequests: 0 });
+        logger.info({ sessionId: id, active: sessions.size }, "MCP HTTP session opened");
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: http.ServerResponse) => {
+    const server = createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const session: Session = { kind: "sse", transport, server, lastSeen: Date.now(), openRequests: 0 };
+    sessions.set(transport.sessionId, session);
+    track(session, res);
+    logger.info({ sessionId: transport.sessionId, active: sessions.size }, "MCP SSE session opened");
+    res.on("close", () => closeSession(transport.sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || session.kind !== "sse") {
+      sendJsonRpcError(res, 404, "Unknown session");
+      return;
+    }
+    track(session, res);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    try {
+      if (url.pathname === "/health") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJsonRpcError(res, 401, "Unauthorized");
+        return;
+      }
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error: any) {
+      logger.error({ err: error, path: url.pathname }, "MCP HTTP request failed");
+      sendJsonRpcError(res, error.status ?? (error instanceof SyntaxError ? 400 : 500), error.message);
+    }
+  });
+
+  httpServer.on("close", () => clearInterval(sweepTimer));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  logger.info(
+    `MCP HTTP transport listening on http://${options.host}:${options.port} (/mcp, /sse)`,
+  );
+
+  return httpServer;
+}
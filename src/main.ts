@@ -1,7 +1,23 @@
 import { pino } from "pino";
-import { initializeDatabase } from "./database.ts";
-import { startWhatsAppConnection, type WhatsAppSocket } from "./whatsapp.ts";
+import {
+  initializeDatabase,
+  getDatabaseSchemaStatus,
+  closeDatabase,
+  addPolicyRule,
+  removePolicyRule,
+  setPolicyDefault,
+  POLICY_ACTIONS,
+  type PolicyAction,
+  type PolicyEffect,
+} from "./database.ts";
+import { startWhatsAppConnection, type WhatsAppConnection } from "./whatsapp.ts";
 import { startMcpServer } from "./mcp.ts";
+import { startOutbox, type Outbox } from "./outbox.ts";
+import { startScheduler, type Scheduler } from "./scheduler.ts";
+import { checkPolicy, getEffectivePolicy, POLICY_FILE_PATH } from "./policy.ts";
+import { importAddressBook, DEFAULT_COUNTRY_CODE } from "./addressbook.ts";
+import { exportChat, EXPORT_FORMATS, type ExportFormat } from "./export.ts";
+import { importChatExport, DATE_ORDERS, type DateOrder } from "./chatimport.ts";
 
 const waLogger = pino(
   {
@@ -19,10 +35,274 @@ const mcpLogger = pino(
   pino.destination("./mcp-logs.txt")
 );
 
+/**
+ * One-shot maintenance commands, e.g. `node src/main.ts schema-status`.
+ * Returns true when a command was handled and the process should exit.
+ */
+function runCliCommand(args: string[]): boolean {
+  const [command] = args;
+  switch (command) {
+    case "schema-status": {
+      const status = getDatabaseSchemaStatus();
+      console.log(`Schema version: ${status.currentVersion} (latest ${status.latestVersion})`);
+      if (!status.pending.length) {
+        console.log("No pending migrations.");
+      }
+      for (const m of status.pending) {
+        console.log(`  pending v${m.version}: ${m.name}${m.destructive ? " [destructive, will back up first]" : ""}`);
+      }
+      closeDatabase();
+      return true;
+    }
+    case "migrate": {
+      const before = getDatabaseSchemaStatus().currentVersion;
+      initializeDatabase();
+      const after = getDatabaseSchemaStatus().currentVersion;
+      console.log(
+        before === after
+          ? `Schema already up to date (version ${after}).`
+          : `Migrated schema from version ${before} to ${after}.`,
+      );
+      closeDatabase();
+      return true;
+    }
+    case "policy": {
+      initializeDatabase();
+      runPolicyCommand(args.slice(1));
+      closeDatabase();
+      return true;
+    }
+    case "import-contacts": {
+      initializeDatabase();
+      runImportContactsCommand(args.slice(1));
+      closeDatabase();
+      return true;
+    }
+    case "export-chat": {
+      initializeDatabase();
+      runExportChatCommand(args.slice(1));
+      closeDatabase();
+      return true;
+    }
+    case "import-chat-export": {
+      initializeDatabase();
+      runImportChatExportCommand(args.slice(1));
+      closeDatabase();
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+const POLICY_USAGE = `Usage:
+  policy list
+  policy allow <send|react|read|manage|*> <pattern> [note]
+  policy deny <send|react|read|manage|*> <pattern> [note]
+  policy remove <rule id>
+  policy default <send|react|read|manage> <allow|deny|clear>
+  policy check <send|react|read|manage> <jid>
+Patterns: a JID, a JID glob such as *@g.us, a phone number, "groups", "individuals" or *.`;
+
+/**
+ * Manages the database policy rules. Deliberately CLI-only: an MCP client must
+ * not be able to widen its own permissions.
+ */
+function runPolicyCommand(args: string[]): void {
+  const [subcommand, ...rest] = args;
+  const isAction = (value: string | undefined): value is PolicyAction =>
+    (POLICY_ACTIONS as readonly string[]).includes(value ?? "");
+
+  switch (subcommand) {
+    case "list": {
+      const { rules, defaults, fileError } = getEffectivePolicy();
+      console.log(`Policy file: ${POLICY_FILE_PATH}${fileError ? ` (INVALID: ${fileError})` : ""}`);
+      console.log(`Defaults: ${POLICY_ACTIONS.map((a) => `${a}=${defaults[a]}`).join(", ")}`);
+      if (!rules.length) {
+        console.log("No rules.");
+      }
+      for (const rule of rules) {
+        const source = rule.id === null ? "file" : `#${rule.id}`;
+        console.log(`  [${source}] ${rule.effect} ${rule.action} ${rule.pattern}${rule.note ? `  (${rule.note})` : ""}`);
+      }
+      return;
+    }
+    case "allow":
+    case "deny": {
+      const [action, pattern, ...note] = rest;
+      if ((action !== "*" && !isAction(action)) || !pattern) {
+        console.error(POLICY_USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      const rule = addPolicyRule({
+        action,
+        effect: subcommand as PolicyEffect,
+        pattern,
+        note: note.join(" ") || null,
+      });
+      console.log(`Added rule #${rule.id}: ${rule.effect} ${rule.action} ${rule.pattern}`);
+      return;
+    }
+    case "remove": {
+      const id = Number(rest[0]);
+      if (!Number.isInteger(id) || !removePolicyRule(id)) {
+        console.error(`No database rule with id "${rest[0]}". Rules from the policy file are edited in the file.`);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(`Removed rule #${id}.`);
+      return;
+    }
+    case "default": {
+      const [action, effect] = rest;
+      if (!isAction(action) || !["allow", "deny", "clear"].includes(effect)) {
+        console.error(POLICY_USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      setPolicyDefault(action, effect === "clear" ? null : (effect as PolicyEffect));
+      console.log(`Default for ${action}: ${getEffectivePolicy().defaults[action]}`);
+      return;
+    }
+    case "check": {
+      const [action, jid] = rest;
+      if (!isAction(action) || !jid) {
+        console.error(POLICY_USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      const decision = checkPolicy(action, jid);
+      console.log(`${decision.allowed ? "ALLOWED" : "DENIED"}: ${decision.reason}`);
+      return;
+    }
+    default:
+      console.error(POLICY_USAGE);
+      process.exitCode = 1;
+  }
+}
+
+const IMPORT_CONTACTS_USAGE = `Usage:
+  import-contacts <file.vcf|file.csv|file.json> [--country-code=<code>]
+Numbers without a country code get --country-code (default: CONTACTS_DEFAULT_COUNTRY_CODE).`;
+
+function runImportContactsCommand(args: string[]): void {
+  const filePath = args.find((arg) => !arg.startsWith("--"));
+  const countryCode = args.find((arg) => arg.startsWith("--country-code="))?.slice("--country-code=".length);
+  if (!filePath) {
+    console.error(IMPORT_CONTACTS_USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  try {
+    const result = importAddressBook(filePath, countryCode?.replace(/\D/g, "") ?? DEFAULT_COUNTRY_CODE);
+    console.log(
+      `Read ${result.contacts} contacts; imported ${result.imported.length} numbers, ` +
+        `${result.matched.length} of them known on WhatsApp.`,
+    );
+    if (result.duplicates) {
+      console.log(`Skipped ${result.duplicates} numbers already listed under another name.`);
+    }
+    for (const { name, value } of result.invalid) {
+      console.log(`  invalid: ${name}: ${value}`);
+    }
+  } catch (error: any) {
+    console.error(`Import failed: ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+const EXPORT_CHAT_USAGE = `Usage:
+  export-chat <chat jid> [--format=txt|jsonl|markdown|html] [--since=<date>] [--until=<date>] [--output=<file>]
+The format defaults to txt (WhatsApp's own export format); dates are ISO 8601, --until is exclusive.`;
+
+function runExportChatCommand(args: string[]): void {
+  const chatJid = args.find((arg) => !arg.startsWith("--"));
+  const flag = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3) || null;
+  const format = flag("format") ?? "txt";
+  const since = flag("since") ? new Date(flag("since")!) : null;
+  const until = flag("until") ? new Date(flag("until")!) : null;
+  if (
+    !chatJid ||
+    !(EXPORT_FORMATS as readonly string[]).includes(format) ||
+    (since && isNaN(since.getTime())) ||
+    (until && isNaN(until.getTime()))
+  ) {
+    console.error(EXPORT_CHAT_USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  try {
+    const result = exportChat(chatJid, {
+      format: format as ExportFormat,
+      since,
+      until,
+      outputPath: flag("output"),
+    });
+    console.log(`Exported ${result.messages} messages to ${result.path}`);
+  } catch (error: any) {
+    console.error(`Export failed: ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+const IMPORT_CHAT_EXPORT_USAGE = `Usage:
+  import-chat-export <export.zip|_chat.txt> <chat jid> [--self-name=<name>] [--date-order=DMY|MDY|YMD]
+--self-name is the name your own messages appear under; required for groups. The date order is detected when omitted.`;
+
+function runImportChatExportCommand(args: string[]): void {
+  const [filePath, chatJid] = args.filter((arg) => !arg.startsWith("--"));
+  const flag = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3) || null;
+  const dateOrder = flag("date-order")?.toUpperCase() ?? null;
+  if (
+    !filePath ||
+    !chatJid?.includes("@") ||
+    (dateOrder && !(DATE_ORDERS as readonly string[]).includes(dateOrder))
+  ) {
+    console.error(IMPORT_CHAT_EXPORT_USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  try {
+    const result = importChatExport(filePath, chatJid, {
+      selfName: flag("self-name"),
+      dateOrder: dateOrder as DateOrder | null,
+    });
+    console.log(
+      `Imported ${result.imported} of ${result.messages} messages (dates read as ${result.date_order}); ` +
+        `${result.duplicates} were already synced.`,
+    );
+    if (result.media_files || result.missing_media) {
+      console.log(`Saved ${result.media_files} attachments; ${result.missing_media} were not in the export.`);
+    }
+    for (const sender of result.senders) {
+      const who = sender.is_self ? "you" : sender.jid ?? "unknown";
+      console.log(`  ${sender.name} → ${who} (${sender.messages} messages)`);
+    }
+  } catch (error: any) {
+    console.error(`Import failed: ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+/** `--pairing-phone=<number>` or WA_PAIRING_PHONE selects pairing-code login. */
+function getPairingPhone(args: string[]): string | null {
+  const flag = args.find((arg) => arg.startsWith("--pairing-phone="));
+  return flag?.slice("--pairing-phone=".length) || process.env.WA_PAIRING_PHONE || null;
+}
+
 async function main() {
+  if (runCliCommand(process.argv.slice(2))) {
+    return;
+  }
+
   mcpLogger.info("Starting WhatsApp MCP Server...");
 
-  let whatsappSocket: WhatsAppSocket | null = null;
+  let whatsappConnection: WhatsAppConnection;
+  let outbox: Outbox;
+  let scheduler: Scheduler;
 
   try {
     mcpLogger.info("Initializing database...");
@@ -30,8 +310,13 @@ async function main() {
     mcpLogger.info("Database initialized successfully.");
 
     mcpLogger.info("Attempting to connect to WhatsApp...");
-    whatsappSocket = await startWhatsAppConnection(waLogger);
+    whatsappConnection = await startWhatsAppConnection(waLogger, {
+      pairingPhone: getPairingPhone(process.argv.slice(2)),
+    });
     mcpLogger.info("WhatsApp connection process initiated.");
+
+    outbox = startOutbox(whatsappConnection, waLogger);
+    scheduler = startScheduler(outbox, waLogger);
   } catch (error: any) {
     mcpLogger.fatal(
       { err: error },
@@ -43,7 +328,7 @@ async function main() {
 
   try {
     mcpLogger.info("Starting MCP server...");
-    await startMcpServer(whatsappSocket, mcpLogger, waLogger);
+    await startMcpServer(whatsappConnection, outbox, scheduler, mcpLogger, waLogger);
     mcpLogger.info("MCP Server started and listening.");
   } catch (error: any) {
     mcpLogger.fatal({ err: error }, "Failed to start MCP server");
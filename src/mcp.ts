@@ -1,4 +1,11 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type CallToolResult,
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { jidNormalizedUser, isJidGroup } from "@whiskeysockets/baileys";
@@ -8,82 +15,117 @@ import path from "node:path";
 import {
   type Message as DbMessage,
   type Chat as DbChat,
+  type Contact as DbContact,
   getMessages,
   getChats,
   getChat,
+  getUnreadChats,
+  getUnreadMessages,
+  markChatRead,
+  MUTED_FOREVER,
   getMessagesAround,
   searchDbForContacts,
+  getContact,
+  searchGroups,
+  getGroup,
   searchMessages,
+  getDatabaseSchemaStatus,
+  getSchemaDescription,
+  getMessageRevisions,
+  getReactions,
+  getPoll,
+  getPollVotes,
+  getMessageReceipts,
+  listOutboxItems,
+  getOutboxItem,
+  OUTBOX_STATUSES,
+  type OutboxItem,
+  listScheduledMessages,
+  getScheduledMessage,
+  SCHEDULE_CATCH_UP_POLICIES,
+  type ScheduledMessage,
+  type PolicyAction,
+  recordAuditEntry,
+  getAuditLog,
+  AUDIT_STATUSES,
+  type AuditEntry,
+  importFilePath,
 } from "./database.ts";
 
 import {
-  sendWhatsAppMessage,
-  sendWhatsAppMedia,
-  replyToWhatsAppMessage,
-  sendWhatsAppReaction,
   markWhatsAppChatAsRead,
   getWhatsAppGroupMembers,
+  createWhatsAppGroup,
+  updateWhatsAppGroupParticipants,
+  updateWhatsAppGroupSettings,
+  getWhatsAppGroupInviteLink,
+  leaveWhatsAppGroup,
   syncContactsFromSock,
-  type WhatsAppSocket,
+  getSelfJid,
+  SOCKET_WAIT_TIMEOUT_MS,
+  type WhatsAppConnection,
 } from "./whatsapp.ts";
+import { type Outbox } from "./outbox.ts";
+import { type Scheduler, DEFAULT_CATCH_UP_POLICY } from "./scheduler.ts";
+import { getMessageMediaFile, MAX_INLINE_BYTES } from "./media.ts";
+import { startHttpTransport } from "./http.ts";
+import { renderQrPngBase64 } from "./qr.ts";
+import { checkPolicy, pageByPolicy, formatPolicyDenial } from "./policy.ts";
+import { summarizePayload } from "./audit.ts";
+import { buildVCard } from "./vcard.ts";
+import { importAddressBook, DEFAULT_COUNTRY_CODE } from "./addressbook.ts";
+import { exportChat, EXPORT_FORMATS } from "./export.ts";
+import { importChatExport, DATE_ORDERS } from "./chatimport.ts";
+import {
+  type PromptText,
+  summarizeChatPrompt,
+  draftReplyPrompt,
+  catchUpGroupsPrompt,
+  actionItemsPrompt,
+} from "./prompts.ts";
 import { type P } from "pino";
 
-// Load contacts.json once at startup for case-insensitive name fallback
-const CONTACTS_JSON_PATH = path.join(import.meta.dirname, "..", "contacts.json");
-type ContactEntry = { "Display Name"?: string; "Mobile Phone"?: string; "First Name"?: string; "Last Name"?: string };
-let contactsJsonCache: ContactEntry[] | null = null;
-function getContactsJson(): ContactEntry[] {
-  if (!contactsJsonCache) {
-    try {
-      contactsJsonCache = JSON.parse(fs.readFileSync(CONTACTS_JSON_PATH, "utf8")) as ContactEntry[];
-    } catch {
-      contactsJsonCache = [];
-    }
-  }
-  return contactsJsonCache;
-}
+// How many chats the chat list resource holds, and messages a chat's messages resource
+const RESOURCE_CHAT_LIMIT = 100;
+const RESOURCE_MESSAGE_LIMIT = 50;
 
-/** Case-insensitive search in contacts.json. Returns a phone-based JID or null. */
-function searchContactsJson(query: string): string | null {
-  const lower = query.toLowerCase();
-  const contacts = getContactsJson();
-  const match = contacts.find((c) => {
-    const name = (c["Display Name"] || `${c["First Name"] || ""} ${c["Last Name"] || ""}`.trim()).toLowerCase();
-    return name.includes(lower);
-  });
-  if (!match?.["Mobile Phone"]) return null;
-  const digits = match["Mobile Phone"].replace(/\D/g, "");
-  if (!digits) return null;
-  return `${digits}@s.whatsapp.net`;
-}
+const CHATS_RESOURCE_URI = "whatsapp://chats";
+const chatResourceUri = (jid: string) => `whatsapp://chat/${jid}`;
+const chatMessagesResourceUri = (jid: string) => `whatsapp://chat/${jid}/messages`;
 
-// Load groups.json once at startup for case-insensitive group name lookup
-const GROUPS_JSON_PATH = path.join(import.meta.dirname, "..", "groups.json");
-type GroupEntry = { name: string; jid: string };
-let groupsJsonCache: GroupEntry[] | null = null;
-function getGroupsJson(): GroupEntry[] {
-  if (!groupsJsonCache) {
-    try {
-      groupsJsonCache = JSON.parse(fs.readFileSync(GROUPS_JSON_PATH, "utf8")) as GroupEntry[];
-    } catch {
-      groupsJsonCache = [];
-    }
+/**
+ * Canonical form of a chat resource URI, so subscriptions match however the
+ * client encoded the JID. Null for URIs that aren't chat resources.
+ */
+function parseChatResourceUri(uri: string): { uri: string; jid: string | null } | null {
+  if (uri === CHATS_RESOURCE_URI) return { uri, jid: null };
+  const match = /^whatsapp:\/\/chat\/([^/]+)(\/messages)?$/.exec(uri);
+  if (!match) return null;
+  let jid: string;
+  try {
+    jid = decodeURIComponent(match[1]);
+  } catch {
+    return null;
   }
-  return groupsJsonCache;
+  return { uri: match[2] ? chatMessagesResourceUri(jid) : chatResourceUri(jid), jid };
 }
 
-/** Case-insensitive search in groups.json. Returns the group JID or null. */
-function searchGroupsJson(query: string): { jid: string; name: string }[] {
-  const lower = query.toLowerCase();
-  return getGroupsJson().filter((g) => g.name.toLowerCase().includes(lower));
+// Chats a catch_up call covers at most, before the policy filter
+const CATCH_UP_CHAT_LIMIT = 100;
+
+// Longest matched/invalid lists an import_contacts report includes
+const MAX_IMPORT_REPORT_ITEMS = 100;
+
+// Saved name first, then the contact's own push or business name
+function contactDisplayName(contact: DbContact): string | null {
+  return contact.name ?? contact.notify ?? contact.verified_name ?? null;
 }
 
 /**
  * Resolves a recipient string (name or JID) to a normalized JID.
  * - If it already contains "@", treat as JID directly.
  * - Otherwise, search contacts DB by name/phone and resolve.
- * - Falls back to contacts.json (case-insensitive) for individual contacts.
- * - Falls back to groups.json (case-insensitive) for group names.
+ * - Falls back to the synced groups table (case-insensitive) for group names.
  * Returns { jid } on success, or { error } on failure.
  */
 function resolveRecipient(
@@ -112,18 +154,13 @@ function resolveRecipient(
   // Treat as a contact name — search the DB (already case-insensitive via LOWER())
   const matches = searchDbForContacts(recipient, 10);
   if (matches.length === 0) {
-    // DB had no match — try contacts.json (case-insensitive) for individual contacts
-    const jidFromJson = searchContactsJson(recipient);
-    if (jidFromJson) {
-      return { jid: jidFromJson };
-    }
-    // Try groups.json (case-insensitive) for group names
-    const groupMatches = searchGroupsJson(recipient);
+    // Try group names (case-insensitive)
+    const groupMatches = searchGroups(recipient, 10);
     if (groupMatches.length === 1) {
       return { jid: groupMatches[0].jid };
     }
     if (groupMatches.length > 1) {
-      const list = groupMatches.map((g) => `• ${g.name} → ${g.jid}`).join("\n");
+      const list = groupMatches.map((g) => `• ${g.name ?? "Unknown"} → ${g.jid}`).join("\n");
       return { error: `Multiple groups match "${recipient}". Please be more specific:\n${list}` };
     }
     return {
@@ -135,13 +172,91 @@ function resolveRecipient(
   }
   // Multiple matches — list them for the user
   const list = matches
-    .map((c) => `• ${c.name ?? "Unknown"} → ${c.jid}`)
+    .map((c) => `• ${contactDisplayName(c) ?? "Unknown"} → ${c.jid}`)
     .join("\n");
   return {
     error: `Multiple contacts match "${recipient}". Please be more specific or use a JID directly:\n${list}`,
   };
 }
 
+/** Resolves a group name or JID; individual chats are rejected. */
+function resolveGroup(
+  group: string,
+): { jid: string; error?: never } | { error: string; jid?: never } {
+  const resolved = resolveRecipient(group);
+  if (resolved.error) return resolved;
+  if (!isJidGroup(resolved.jid!)) {
+    return { error: `"${group}" is not a group (resolved to ${resolved.jid}).` };
+  }
+  return resolved;
+}
+
+/** Resolves participant names, phone numbers or JIDs; groups are rejected. */
+function resolveParticipants(
+  participants: string[],
+): { jids: string[]; error?: never } | { error: string; jids?: never } {
+  const jids: string[] = [];
+  for (const participant of participants) {
+    const resolved = resolveRecipient(participant);
+    if (resolved.error) return { error: `Participant "${participant}": ${resolved.error}` };
+    if (isJidGroup(resolved.jid!)) {
+      return { error: `Participant "${participant}" is a group, not a person.` };
+    }
+    jids.push(resolved.jid!);
+  }
+  return { jids: [...new Set(jids)] };
+}
+
+const PARTICIPANT_STATUS_TEXT: Record<string, string> = {
+  "200": "ok",
+  "403": "not permitted (their privacy settings may require an invite link)",
+  "404": "not on WhatsApp",
+  "408": "recently left the group and can't be re-added yet",
+  "409": "already in the group, or not a member",
+};
+
+type ContactCardInput = { contact?: string; name?: string; phone_numbers?: string[] };
+
+/**
+ * Turns a send_contact entry into a vCard. `contact` is looked up like a
+ * recipient (name, phone or JID); `name` and `phone_numbers` fill in or
+ * override what the lookup finds.
+ */
+function buildContactCard(
+  input: ContactCardInput,
+): { card: { display_name: string; vcard: string }; error?: never } | { error: string; card?: never } {
+  const phones = [...(input.phone_numbers ?? [])];
+  let name = input.name?.trim() || null;
+  if (input.contact) {
+    const resolved = resolveRecipient(input.contact);
+    if (resolved.error) return { error: resolved.error };
+    if (isJidGroup(resolved.jid!) || !resolved.jid!.endsWith("@s.whatsapp.net")) {
+      return { error: `"${input.contact}" is not a phone-number contact, so it can't be shared as a contact card.` };
+    }
+    const digits = resolved.jid!.split("@")[0];
+    if (!phones.length) phones.push(digits);
+    const known = getContact(resolved.jid!);
+    name ??= (known && contactDisplayName(known)) ?? getChat(resolved.jid!, false)?.name ?? `+${digits}`;
+  }
+  if (!phones.some((phone) => /\d{5,}/.test(phone.replace(/\D/g, "")))) {
+    return { error: "Each contact needs a phone number: give `contact` or `phone_numbers`." };
+  }
+  name ??= `+${phones[0].replace(/\D/g, "")}`;
+  return { card: { display_name: name, vcard: buildVCard({ display_name: name, phone_numbers: phones }) } };
+}
+
+// RIFF....WEBP: WhatsApp only accepts WebP stickers
+function isWebpFile(filePath: string): boolean {
+  const header = Buffer.alloc(12);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, header, 0, 12, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return header.toString("ascii", 0, 4) === "RIFF" && header.toString("ascii", 8, 12) === "WEBP";
+}
+
 function formatDbMessageForJson(msg: DbMessage) {
   return {
     id: msg.id,
@@ -156,6 +271,90 @@ function formatDbMessageForJson(msg: DbMessage) {
     content: msg.content,
     timestamp: msg.timestamp.toISOString(),
     is_from_me: msg.is_from_me,
+    edited: Boolean(msg.edited_at),
+    deleted: Boolean(msg.deleted_at),
+    reactions: msg.reactions ?? {},
+    ...(msg.is_from_me && msg.status ? { status: msg.status } : {}),
+    ...(msg.media
+      ? {
+          media: {
+            type: msg.media.media_type,
+            mimetype: msg.media.mimetype ?? null,
+            file_name: msg.media.file_name ?? null,
+            size: msg.media.file_length ?? null,
+            downloaded: Boolean(msg.media.cache_path),
+          },
+        }
+      : {}),
+    ...(msg.location ? { location: msg.location } : {}),
+    ...(msg.contacts?.length
+      ? {
+          contacts: msg.contacts.map((c) => ({
+            display_name: c.display_name,
+            phone_numbers: c.phone_numbers,
+          })),
+        }
+      : {}),
+    ...(msg.snippet ? { snippet: msg.snippet } : {}),
+  };
+}
+
+function formatOutboxItemForJson(item: OutboxItem) {
+  const { kind, ...details } = item.payload;
+  return {
+    id: item.id,
+    chat_jid: item.chat_jid,
+    kind,
+    status: item.status,
+    attempts: item.attempts,
+    max_attempts: item.max_attempts,
+    next_attempt_at: item.status === "queued" ? item.next_attempt_at.toISOString() : null,
+    last_error: item.last_error,
+    sent_message_id: item.sent_message_id,
+    created_at: item.created_at.toISOString(),
+    updated_at: item.updated_at.toISOString(),
+    details,
+  };
+}
+
+function formatScheduledMessageForJson(job: ScheduledMessage) {
+  const { kind, ...details } = job.payload;
+  return {
+    id: job.id,
+    chat_jid: job.chat_jid,
+    kind,
+    status: job.status,
+    next_run_at: job.next_run_at?.toISOString() ?? null,
+    recurrence: job.recurrence,
+    catch_up: job.catch_up,
+    run_count: job.run_count,
+    last_run_at: job.last_run_at?.toISOString() ?? null,
+    last_outbox_id: job.last_outbox_id,
+    created_at: job.created_at.toISOString(),
+    details,
+  };
+}
+
+function formatAuditEntryForJson(entry: AuditEntry) {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp.toISOString(),
+    tool: entry.tool,
+    status: entry.status,
+    chat_jid: entry.chat_jid ?? null,
+    content_preview: entry.content_preview ?? null,
+    content_sha256: entry.content_sha256 ?? null,
+    // A queued send's final outcome comes from the outbox
+    message_id: entry.message_id ?? entry.outbox_message_id ?? null,
+    outbox_id: entry.outbox_id ?? null,
+    outbox_status: entry.outbox_status ?? null,
+    schedule_id: entry.schedule_id ?? null,
+    error: entry.error ?? null,
+    client: entry.client_name
+      ? `${entry.client_name}${entry.client_version ? ` ${entry.client_version}` : ""}`
+      : null,
+    session_id: entry.session_id ?? null,
+    details: entry.details ?? null,
   };
 }
 
@@ -173,42 +372,128 @@ function formatDbChatForJson(chat: DbChat) {
         ? "Me"
         : null,
     last_is_from_me: chat.last_is_from_me ?? null,
+    unread_count: chat.unread_count ?? 0,
+    last_read_at: chat.last_read_at?.toISOString() ?? null,
+    muted_until: !chat.muted_until || chat.muted_until <= new Date()
+      ? null
+      : chat.muted_until.getTime() === MUTED_FOREVER.getTime()
+        ? "always"
+        : chat.muted_until.toISOString(),
   };
 }
 
-export async function startMcpServer(
-  sock: WhatsAppSocket | null,
+/**
+ * Builds an McpServer with every tool and resource registered. Stdio uses a
+ * single instance; the HTTP transport creates one per client session.
+ */
+function createMcpServer(
+  connection: WhatsAppConnection,
+  outbox: Outbox,
+  scheduler: Scheduler,
   mcpLogger: P.Logger,
   waLogger: P.Logger,
-): Promise<void> {
-  mcpLogger.info("Initializing MCP server...");
-
+): McpServer {
   const server = new McpServer({
     name: "whatsapp-baileys-ts",
     version: "0.1.0",
     capabilities: {
       tools: {},
       resources: {},
+      prompts: {},
     },
   });
 
+  // Returned by tools that need a live socket once waiting out a reconnect fails
+  const notConnectedResult = () => ({
+    isError: true,
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: WhatsApp connection is not active (state: ${connection.getStatus().state}).`,
+      },
+    ],
+  });
+
+  // What a mutating tool knows about its call; see `audited`
+  type AuditContext = Partial<
+    Omit<AuditEntry, "id" | "timestamp" | "tool" | "client_name" | "client_version" | "session_id">
+  >;
+
+  // Wraps a mutating tool so every call lands in the audit log, with the
+  // calling client and session. The handler fills in recipient, content and
+  // IDs; status and error default from the result.
+  const audited =
+    <Args>(tool: string, handler: (args: Args, audit: AuditContext) => Promise<CallToolResult>) =>
+    async (args: Args, extra: { sessionId?: string }): Promise<CallToolResult> => {
+      const audit: AuditContext = {};
+      const record = (status: AuditEntry["status"], error: string | null) => {
+        const client = server.server.getClientVersion();
+        recordAuditEntry({
+          ...audit,
+          timestamp: new Date(),
+          tool,
+          status: audit.status ?? status,
+          error: audit.error ?? error,
+          client_name: client?.name ?? null,
+          client_version: client?.version ?? null,
+          session_id: extra.sessionId ?? null,
+        });
+      };
+      try {
+        const result = await handler(args, audit);
+        const errorText = result.isError
+          ? result.content.map((c) => (c.type === "text" ? c.text : "")).join(" ").trim()
+          : null;
+        record(result.isError ? "error" : "ok", errorText);
+        return result;
+      } catch (error: any) {
+        record("error", error.message);
+        throw error;
+      }
+    };
+
+  // Non-null when the recipient policy (policy.ts) forbids `action` on the chat
+  const policyDenied = (
+    tool: string,
+    action: PolicyAction,
+    jid: string,
+    audit?: AuditContext,
+  ) => {
+    const decision = checkPolicy(action, jid);
+    if (decision.allowed) return null;
+    mcpLogger.warn(`[MCP Policy] ${tool} denied: ${decision.reason} (${action} ${jid})`);
+    if (audit) {
+      audit.status = "denied";
+      audit.chat_jid = jid;
+    }
+    return {
+      isError: true,
+      content: [{ type: "text" as const, text: formatPolicyDenial(decision) }],
+    };
+  };
+
   server.tool(
     "search_contacts",
     {
       query: z
         .string()
         .min(1)
-        .describe("Search term for contact name or phone number part of JID"),
+        .describe("Search term: part of a saved name, push name, business name or phone number"),
     },
     async ({ query }) => {
       mcpLogger.info(
         `[MCP Tool] Executing search_contacts with query: "${query}"`,
       );
       try {
-        const contacts = searchDbForContacts(query, 20);
+        const contacts = pageByPolicy("read", (l, o) => searchDbForContacts(query, l, o), (c) => c.jid, 20);
         const formattedContacts = contacts.map((c) => ({
           jid: c.jid,
-          name: c.name ?? c.jid.split("@")[0],
+          name: contactDisplayName(c) ?? c.jid.split("@")[0],
+          saved_name: c.name ?? null,
+          push_name: c.notify ?? null,
+          business_name: c.verified_name ?? null,
+          phone: c.phone ? `+${c.phone}` : null,
+          lid: c.lid ?? null,
         }));
         return {
           content: [
@@ -262,6 +547,8 @@ export async function startMcpServer(
       mcpLogger.info(
         `[MCP Tool] Executing list_messages for chat ${chat_jid}, limit=${limit}, page=${page}`,
       );
+      const denied = policyDenied("list_messages", "read", chat_jid);
+      if (denied) return denied;
       try {
         const messages = getMessages(chat_jid, limit, page);
         if (!messages.length && page === 0) {
@@ -306,6 +593,72 @@ export async function startMcpServer(
     },
   );
 
+  server.tool(
+    "export_chat",
+    {
+      chat_jid: z.string().describe("The JID of the chat to export"),
+      format: z
+        .enum(EXPORT_FORMATS)
+        .describe(
+          "txt: WhatsApp's own export format; jsonl: one JSON object per message; markdown: transcript; html: self-contained page",
+        ),
+      since: z
+        .string()
+        .optional()
+        .describe("Only messages at or after this ISO 8601 date-time"),
+      until: z
+        .string()
+        .optional()
+        .describe("Only messages before this ISO 8601 date-time"),
+      file_name: z
+        .string()
+        .optional()
+        .describe("Name of the file to write in data/exports/ (no directories); must not exist yet. Defaults to one named after the chat"),
+    },
+    audited("export_chat", async ({ chat_jid, format, since, until, file_name }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing export_chat for ${chat_jid} as ${format}`);
+      audit.chat_jid = chat_jid;
+      audit.details = { format, since, until };
+      const sinceDate = since ? new Date(since) : null;
+      const untilDate = until ? new Date(until) : null;
+      if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: since and until must be ISO 8601 date-times." }],
+        };
+      }
+      const denied = policyDenied("export_chat", "read", chat_jid, audit);
+      if (denied) return denied;
+      try {
+        const result = exportChat(chat_jid, {
+          format,
+          since: sinceDate,
+          until: untilDate,
+          fileName: file_name,
+        });
+        audit.details = { format, since, until, path: result.path, messages: result.messages };
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              path: result.path,
+              format: result.format,
+              messages: result.messages,
+              first_message_at: result.first_message_at.toISOString(),
+              last_message_at: result.last_message_at.toISOString(),
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] export_chat failed for ${chat_jid}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error exporting chat ${chat_jid}: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
   server.tool(
     "list_chats",
     {
@@ -343,12 +696,12 @@ export async function startMcpServer(
         `[MCP Tool] Executing list_chats: limit=${limit}, page=${page}, sort=${sort_by}, query=${query}, lastMsg=${include_last_message}`,
       );
       try {
-        const chats = getChats(
+        const chats = pageByPolicy(
+          "read",
+          (l, o) => getChats(l, o / l, sort_by, query ?? null, include_last_message),
+          (chat) => chat.jid,
           limit,
           page,
-          sort_by,
-          query ?? null,
-          include_last_message,
         );
         if (!chats.length && page === 0) {
           return {
@@ -406,6 +759,8 @@ export async function startMcpServer(
       mcpLogger.info(
         `[MCP Tool] Executing get_chat for ${chat_jid}, lastMsg=${include_last_message}`,
       );
+      const denied = policyDenied("get_chat", "read", chat_jid);
+      if (denied) return denied;
       try {
         const chat = getChat(chat_jid, include_last_message);
         if (!chat) {
@@ -442,6 +797,68 @@ export async function startMcpServer(
     },
   );
 
+  server.tool(
+    "catch_up",
+    {
+      limit_per_chat: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .optional()
+        .default(20)
+        .describe("Most recent unread messages returned per chat (default 20)"),
+      include_muted: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also include muted chats (default false)"),
+    },
+    async ({ limit_per_chat, include_muted }) => {
+      mcpLogger.info(
+        `[MCP Tool] Executing catch_up: perChat=${limit_per_chat}, muted=${include_muted}`,
+      );
+      try {
+        const chats = pageByPolicy(
+          "read",
+          (l, o) => getUnreadChats(l, include_muted, o),
+          (chat) => chat.jid,
+          CATCH_UP_CHAT_LIMIT,
+        );
+        if (!chats.length) {
+          return {
+            content: [{ type: "text", text: "You're all caught up: no unread messages." }],
+          };
+        }
+        const result = chats.map((chat) => {
+          const messages = getUnreadMessages(chat.jid, limit_per_chat).reverse();
+          const { jid, name, is_group, unread_count, last_read_at, muted_until } = formatDbChatForJson(chat);
+          return {
+            chat_jid: jid,
+            name,
+            is_group,
+            unread_count,
+            new_messages: chat.new_messages,
+            last_read_at,
+            muted_until,
+            // Oldest first; the earliest are dropped past limit_per_chat
+            truncated: messages.length < chat.new_messages,
+            messages: messages.map(formatDbMessageForJson),
+          };
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] catch_up failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error catching up: ${error.message}` }],
+        };
+      }
+    },
+  );
+
   server.tool(
     "get_message_context",
     {
@@ -480,6 +897,8 @@ export async function startMcpServer(
             ],
           };
         }
+        const denied = policyDenied("get_message_context", "read", context.target.chat_jid);
+        if (denied) return denied;
         const formattedContext = {
           target: formatDbMessageForJson(context.target),
           before: context.before.map(formatDbMessageForJson),
@@ -510,6 +929,108 @@ export async function startMcpServer(
     },
   );
 
+  server.tool(
+    "get_message_history",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of the message whose edit/deletion history to retrieve"),
+    },
+    async ({ message_id }) => {
+      mcpLogger.info(`[MCP Tool] Executing get_message_history for msg ${message_id}`);
+      try {
+        const { target } = getMessagesAround(message_id, 0, 0);
+        if (!target) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Message with ID ${message_id} not found.` }],
+          };
+        }
+        const denied = policyDenied("get_message_history", "read", target.chat_jid);
+        if (denied) return denied;
+        const revisions = getMessageRevisions(target.id, target.chat_jid);
+        const history = {
+          message: formatDbMessageForJson(target),
+          revisions: [
+            ...revisions.map((r) => ({
+              revision: r.revision,
+              content: r.content,
+              replaced_at: r.replaced_at?.toISOString() ?? null,
+              current: false,
+            })),
+            {
+              revision: revisions.length + 1,
+              content: target.content,
+              replaced_at: null,
+              current: true,
+            },
+          ],
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(history, null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_message_history failed for ${message_id}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error retrieving history for message ${message_id}: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  // Queues a send and waits briefly for it to go out. Items still pending after
+  // the wait stay queued and are retried in the background.
+  const queueAndReport = async (
+    tool: string,
+    chatJid: string,
+    payload: Parameters<Outbox["enqueue"]>[1],
+    sentText: (messageId: string | null) => string,
+    audit: AuditContext,
+  ) => {
+    Object.assign(audit, { chat_jid: chatJid, ...summarizePayload(payload) });
+    let item: OutboxItem | null;
+    try {
+      item = outbox.enqueue(chatJid, payload);
+      audit.outbox_id = item.id;
+      item = await outbox.waitForSettled(item.id, SOCKET_WAIT_TIMEOUT_MS);
+    } catch (error: any) {
+      mcpLogger.error(`[MCP Tool Error] ${tool} failed to queue: ${error.message}`);
+      return {
+        isError: true,
+        content: [{ type: "text" as const, text: `Error queueing message: ${error.message}` }],
+      };
+    }
+    if (!item) {
+      return {
+        isError: true,
+        content: [{ type: "text" as const, text: "Error: the queued message disappeared from the outbox." }],
+      };
+    }
+    if (item.status === "sent") {
+      audit.message_id = item.sent_message_id;
+      return { content: [{ type: "text" as const, text: sentText(item.sent_message_id) }] };
+    }
+    if (item.status === "failed" || item.status === "cancelled") {
+      mcpLogger.error(`[MCP Tool Error] ${tool} outbox item ${item.id} ${item.status}: ${item.last_error}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `Failed to send to ${chatJid} (outbox item ${item.id} ${item.status}${item.last_error ? `: ${item.last_error}` : ""}).`,
+        }],
+      };
+    }
+    audit.status = "queued";
+    const lastError = item.last_error ? ` Last error: ${item.last_error}.` : "";
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Not sent yet; queued as outbox item ${item.id} for ${chatJid} (state: ${connection.getStatus().state}, attempts: ${item.attempts}).${lastError} It will be retried automatically; use list_outbox to follow it or cancel_outbox_item to cancel it.`,
+      }],
+    };
+  };
+
   server.tool(
     "send_message",
     {
@@ -520,20 +1041,9 @@ export async function startMcpServer(
         ),
       message: z.string().min(1).describe("The text message to send"),
     },
-    async ({ recipient, message }) => {
+    audited("send_message", async ({ recipient, message }, audit) => {
       mcpLogger.info(`[MCP Tool] Executing send_message to ${recipient}`);
-      if (!sock) {
-        mcpLogger.error(
-          "[MCP Tool Error] send_message failed: WhatsApp socket is not available.",
-        );
-        return {
-          isError: true,
-          content: [
-            { type: "text", text: "Error: WhatsApp connection is not active." },
-          ],
-        };
-      }
-
+      audit.details = { recipient };
       const resolved = resolveRecipient(recipient);
       if (resolved.error) {
         mcpLogger.error(`[MCP Tool Error] send_message resolve failed: ${resolved.error}`);
@@ -543,47 +1053,17 @@ export async function startMcpServer(
         };
       }
       const normalizedRecipient = resolved.jid!;
+      const denied = policyDenied("send_message", "send", normalizedRecipient, audit);
+      if (denied) return denied;
 
-      try {
-        const result = await sendWhatsAppMessage(
-          waLogger,
-          sock,
-          normalizedRecipient,
-          message,
-        );
-
-        if (result && result.key && result.key.id) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Message sent successfully to ${normalizedRecipient} (ID: ${result.key.id}).`,
-              },
-            ],
-          };
-        } else {
-          return {
-            isError: true,
-            content: [
-              {
-                type: "text",
-                text: `Failed to send message to ${normalizedRecipient}. See server logs for details.`,
-              },
-            ],
-          };
-        }
-      } catch (error: any) {
-        mcpLogger.error(
-          `[MCP Tool Error] send_message failed for ${recipient}: ${error.message}`,
-        );
-        return {
-          isError: true,
-          content: [
-            { type: "text", text: `Error sending message: ${error.message}` },
-          ],
-        };
-      }
-    },
+      return queueAndReport(
+        "send_message",
+        normalizedRecipient,
+        { kind: "text", text: message },
+        (id) => `Message sent successfully to ${normalizedRecipient} (ID: ${id}).`,
+        audit,
+      );
+    }),
   );
 
   server.tool(
@@ -592,7 +1072,9 @@ export async function startMcpServer(
       query: z
         .string()
         .min(1)
-        .describe("The text content to search for within messages"),
+        .describe(
+          "FTS5 search query. Plain words match all terms; supports \"exact phrases\", prefix* matching and AND / OR / NOT operators",
+        ),
       chat_jid: z
         .string()
         .optional()
@@ -613,21 +1095,36 @@ export async function startMcpServer(
         .optional()
         .default(0)
         .describe("Page number (0-indexed, default 0)"),
+      order_by: z
+        .enum(["relevance", "newest", "oldest"])
+        .optional()
+        .default("relevance")
+        .describe("Result order: 'relevance' (default), 'newest' or 'oldest'"),
     },
-    async ({ chat_jid, query, limit, page }) => {
+    async ({ chat_jid, query, limit, page, order_by }) => {
       const searchScope = chat_jid ? `in chat ${chat_jid}` : "across all chats";
       mcpLogger.info(
-        `[MCP Tool] Executing search_messages ${searchScope}, query="${query}", limit=${limit}, page=${page}`,
+        `[MCP Tool] Executing search_messages ${searchScope}, query="${query}", limit=${limit}, page=${page}, order=${order_by}`,
       );
+      if (chat_jid) {
+        const denied = policyDenied("search_messages", "read", chat_jid);
+        if (denied) return denied;
+      }
       try {
-        const messages = searchMessages(query, chat_jid, limit, page);
+        const messages = pageByPolicy(
+          "read",
+          (l, o) => searchMessages(query, chat_jid, l, o / l, order_by),
+          (m) => m.chat_jid,
+          limit,
+          page,
+        );
 
         if (!messages.length && page === 0) {
           return {
             content: [
               {
                 type: "text",
-                text: `No messages found containing "${query}" in chat ${chat_jid}.`,
+                text: `No messages found matching "${query}" ${searchScope}.`,
               },
             ],
           };
@@ -636,7 +1133,7 @@ export async function startMcpServer(
             content: [
               {
                 type: "text",
-                text: `No more messages found containing "${query}" on page ${page} for chat ${chat_jid}.`,
+                text: `No more messages found matching "${query}" on page ${page} ${searchScope}.`,
               },
             ],
           };
@@ -653,14 +1150,14 @@ export async function startMcpServer(
         };
       } catch (error: any) {
         mcpLogger.error(
-          `[MCP Tool Error] search_messages_in_chat failed for ${chat_jid} / "${query}": ${error.message}`,
+          `[MCP Tool Error] search_messages failed for ${chat_jid} / "${query}": ${error.message}`,
         );
         return {
           isError: true,
           content: [
             {
               type: "text",
-              text: `Error searching messages in chat ${chat_jid}: ${error.message}`,
+              text: `Error searching messages ${searchScope}: ${error.message}`,
             },
           ],
         };
@@ -689,14 +1186,9 @@ export async function startMcpServer(
         .optional()
         .describe("Optional filename override (used for documents)"),
     },
-    async ({ recipient, media_type, media_path, caption, file_name }) => {
+    audited("send_media", async ({ recipient, media_type, media_path, caption, file_name }, audit) => {
       mcpLogger.info(`[MCP Tool] Executing send_media to ${recipient}, type=${media_type}`);
-      if (!sock) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
-        };
-      }
+      audit.details = { recipient, media_type, media_path };
       const resolved = resolveRecipient(recipient);
       if (resolved.error) {
         return {
@@ -705,84 +1197,205 @@ export async function startMcpServer(
         };
       }
       const normalizedRecipient = resolved.jid!;
-      try {
-        const result = await sendWhatsAppMedia(
-          waLogger, sock, normalizedRecipient, media_type, media_path, caption, file_name
-        );
-        if (result?.key?.id) {
-          return {
-            content: [{ type: "text", text: `Media sent successfully to ${normalizedRecipient} (ID: ${result.key.id}).` }],
-          };
-        }
+      const denied = policyDenied("send_media", "send", normalizedRecipient, audit);
+      if (denied) return denied;
+      // The file is read when the item is sent, so fail fast if it's missing
+      if (!fs.existsSync(media_path)) {
         return {
           isError: true,
-          content: [{ type: "text", text: `Failed to send media to ${normalizedRecipient}.` }],
+          content: [{ type: "text", text: `Media file not found: ${media_path}` }],
         };
-      } catch (error: any) {
-        mcpLogger.error(`[MCP Tool Error] send_media failed: ${error.message}`);
+      }
+      return queueAndReport(
+        "send_media",
+        normalizedRecipient,
+        { kind: "media", media_type, media_path, caption, file_name },
+        (id) => `Media sent successfully to ${normalizedRecipient} (ID: ${id}).`,
+        audit,
+      );
+    }),
+  );
+
+  server.tool(
+    "send_location",
+    {
+      recipient: z
+        .string()
+        .describe("Recipient: contact name, group name, phone number, or JID"),
+      latitude: z.number().min(-90).max(90).describe("Latitude in decimal degrees"),
+      longitude: z.number().min(-180).max(180).describe("Longitude in decimal degrees"),
+      name: z.string().optional().describe("Optional place name, e.g. 'Blue Bottle Coffee'"),
+      address: z.string().optional().describe("Optional street address shown under the name"),
+    },
+    audited("send_location", async ({ recipient, latitude, longitude, name, address }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing send_location to ${recipient}`);
+      audit.details = { recipient };
+      const resolved = resolveRecipient(recipient);
+      if (resolved.error) {
         return {
           isError: true,
-          content: [{ type: "text", text: `Error sending media: ${error.message}` }],
+          content: [{ type: "text", text: resolved.error }],
         };
       }
-    },
+      const chatJid = resolved.jid!;
+      const denied = policyDenied("send_location", "send", chatJid, audit);
+      if (denied) return denied;
+      return queueAndReport(
+        "send_location",
+        chatJid,
+        { kind: "location", latitude, longitude, name, address },
+        (id) => `Location sent successfully to ${chatJid} (ID: ${id}).`,
+        audit,
+      );
+    }),
   );
 
   server.tool(
-    "reply_to_message",
+    "send_contact",
     {
-      message_id: z
-        .string()
-        .describe("The ID of the message to reply to"),
-      reply_text: z
+      recipient: z
         .string()
+        .describe("Recipient: contact name, group name, phone number, or JID"),
+      contacts: z
+        .array(
+          z.object({
+            contact: z
+              .string()
+              .optional()
+              .describe("A known contact to share: name, phone number or JID"),
+            name: z
+              .string()
+              .optional()
+              .describe("Display name on the card (defaults to the contact's name)"),
+            phone_numbers: z
+              .array(z.string())
+              .optional()
+              .describe("Phone numbers in international format (defaults to the contact's number)"),
+          }),
+        )
         .min(1)
-        .describe("The reply text to send"),
+        .max(20)
+        .describe("The contact cards to send; several are sent as one message"),
     },
-    async ({ message_id, reply_text }) => {
-      mcpLogger.info(`[MCP Tool] Executing reply_to_message for msg ${message_id}`);
-      if (!sock) {
+    audited("send_contact", async ({ recipient, contacts }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing send_contact to ${recipient} with ${contacts.length} card(s)`);
+      audit.details = { recipient, count: contacts.length };
+      const cards: { display_name: string; vcard: string }[] = [];
+      for (const [index, input] of contacts.entries()) {
+        const built = buildContactCard(input);
+        if (built.error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Contact ${index + 1}: ${built.error}` }],
+          };
+        }
+        cards.push(built.card!);
+      }
+      const resolved = resolveRecipient(recipient);
+      if (resolved.error) {
         return {
           isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
+          content: [{ type: "text", text: resolved.error }],
         };
       }
-      const context = getMessagesAround(message_id, 0, 0);
-      if (!context.target) {
+      const chatJid = resolved.jid!;
+      const denied = policyDenied("send_contact", "send", chatJid, audit);
+      if (denied) return denied;
+      return queueAndReport(
+        "send_contact",
+        chatJid,
+        { kind: "contacts", contacts: cards },
+        (id) => `Sent ${cards.length} contact card(s) to ${chatJid} (ID: ${id}).`,
+        audit,
+      );
+    }),
+  );
+
+  server.tool(
+    "send_sticker",
+    {
+      recipient: z
+        .string()
+        .describe("Recipient: contact name, group name, phone number, or JID"),
+      sticker_path: z
+        .string()
+        .describe("Absolute local path to a WebP image (ideally 512x512, under 100 KB)"),
+    },
+    audited("send_sticker", async ({ recipient, sticker_path }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing send_sticker to ${recipient}`);
+      audit.details = { recipient, sticker_path };
+      const resolved = resolveRecipient(recipient);
+      if (resolved.error) {
         return {
           isError: true,
-          content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
+          content: [{ type: "text", text: resolved.error }],
         };
       }
-      const { target } = context;
+      const chatJid = resolved.jid!;
+      const denied = policyDenied("send_sticker", "send", chatJid, audit);
+      if (denied) return denied;
       try {
-        const result = await replyToWhatsAppMessage(
-          waLogger,
-          sock,
-          target.chat_jid,
-          target.id,
-          target.content,
-          target.sender ?? null,
-          target.is_from_me,
-          reply_text
-        );
-        if (result?.key?.id) {
+        if (!isWebpFile(sticker_path)) {
           return {
-            content: [{ type: "text", text: `Reply sent successfully (ID: ${result.key.id}).` }],
+            isError: true,
+            content: [{ type: "text", text: `Not a WebP image: ${sticker_path}. Stickers must be WebP.` }],
           };
         }
+      } catch (error: any) {
         return {
           isError: true,
-          content: [{ type: "text", text: "Failed to send reply." }],
+          content: [{ type: "text", text: `Sticker file can't be read: ${error.message}` }],
         };
-      } catch (error: any) {
-        mcpLogger.error(`[MCP Tool Error] reply_to_message failed: ${error.message}`);
+      }
+      return queueAndReport(
+        "send_sticker",
+        chatJid,
+        { kind: "media", media_type: "sticker", media_path: sticker_path },
+        (id) => `Sticker sent successfully to ${chatJid} (ID: ${id}).`,
+        audit,
+      );
+    }),
+  );
+
+  server.tool(
+    "reply_to_message",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of the message to reply to"),
+      reply_text: z
+        .string()
+        .min(1)
+        .describe("The reply text to send"),
+    },
+    audited("reply_to_message", async ({ message_id, reply_text }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing reply_to_message for msg ${message_id}`);
+      audit.details = { quoted_message_id: message_id };
+      const context = getMessagesAround(message_id, 0, 0);
+      if (!context.target) {
         return {
           isError: true,
-          content: [{ type: "text", text: `Error sending reply: ${error.message}` }],
+          content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
         };
       }
-    },
+      const { target } = context;
+      const denied = policyDenied("reply_to_message", "send", target.chat_jid, audit);
+      if (denied) return denied;
+      return queueAndReport(
+        "reply_to_message",
+        target.chat_jid,
+        {
+          kind: "reply",
+          text: reply_text,
+          quoted_message_id: target.id,
+          quoted_content: target.content,
+          quoted_sender: target.sender ?? null,
+          quoted_is_from_me: target.is_from_me,
+        },
+        (id) => `Reply sent successfully (ID: ${id}).`,
+        audit,
+      );
+    }),
   );
 
   server.tool(
@@ -795,14 +1408,97 @@ export async function startMcpServer(
         .string()
         .describe("The emoji to react with (e.g., '👍', '❤️'). Use empty string '' to remove reaction."),
     },
-    async ({ message_id, emoji }) => {
+    audited("send_reaction", async ({ message_id, emoji }, audit) => {
       mcpLogger.info(`[MCP Tool] Executing send_reaction for msg ${message_id}, emoji=${emoji}`);
-      if (!sock) {
+      audit.details = { reacted_message_id: message_id };
+      const context = getMessagesAround(message_id, 0, 0);
+      if (!context.target) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
+        };
+      }
+      const { target } = context;
+      const denied = policyDenied("send_reaction", "react", target.chat_jid, audit);
+      if (denied) return denied;
+      return queueAndReport(
+        "send_reaction",
+        target.chat_jid,
+        {
+          kind: "reaction",
+          message_id: target.id,
+          message_sender: target.sender ?? null,
+          message_is_from_me: target.is_from_me,
+          emoji,
+        },
+        () => `Reaction "${emoji}" sent successfully on message ${message_id}.`,
+        audit,
+      );
+    }),
+  );
+
+  server.tool(
+    "create_poll",
+    {
+      recipient: z
+        .string()
+        .describe("Recipient: contact name, group name, phone number, or JID"),
+      question: z.string().min(1).max(255).describe("The poll question"),
+      options: z
+        .array(z.string().min(1).max(100))
+        .min(2)
+        .max(12)
+        .describe("The answer options (2-12, each unique)"),
+      allow_multiple: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Let voters pick more than one option (default: single choice)"),
+    },
+    audited("create_poll", async ({ recipient, question, options, allow_multiple }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing create_poll to ${recipient} with ${options.length} options`);
+      audit.details = { recipient, allow_multiple };
+      if (new Set(options).size !== options.length) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: poll options must be unique." }],
+        };
+      }
+      const resolved = resolveRecipient(recipient);
+      if (resolved.error) {
+        mcpLogger.error(`[MCP Tool Error] create_poll resolve failed: ${resolved.error}`);
         return {
           isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
+          content: [{ type: "text", text: resolved.error }],
         };
       }
+      const chatJid = resolved.jid!;
+      const denied = policyDenied("create_poll", "send", chatJid, audit);
+      if (denied) return denied;
+      return queueAndReport(
+        "create_poll",
+        chatJid,
+        { kind: "poll", question, options, selectable_count: allow_multiple ? 0 : 1 },
+        (id) => `Poll sent successfully to ${chatJid} (ID: ${id}). Use get_poll_results with this ID to see the votes.`,
+        audit,
+      );
+    }),
+  );
+
+  server.tool(
+    "download_media",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of a message that carries an image, video, document, audio or sticker"),
+      include_content: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also return the file itself (images inline, other types as an embedded resource). Default false: only the local path."),
+    },
+    async ({ message_id, include_content }) => {
+      mcpLogger.info(`[MCP Tool] Executing download_media for msg ${message_id}`);
       const context = getMessagesAround(message_id, 0, 0);
       if (!context.target) {
         return {
@@ -810,25 +1506,213 @@ export async function startMcpServer(
           content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
         };
       }
-      const { target } = context;
+      const denied = policyDenied("download_media", "read", context.target.chat_jid);
+      if (denied) return denied;
+      if (!context.target.media) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Message ${message_id} has no media attachment.` }],
+        };
+      }
       try {
-        await sendWhatsAppReaction(
-          waLogger,
-          sock,
-          target.chat_jid,
-          target.id,
-          target.sender ?? null,
-          target.is_from_me,
-          emoji
+        // Cached files don't need the socket; otherwise wait out a reconnect
+        const sock = context.target.media.cache_path
+          ? connection.getSocket()
+          : await connection.waitForSocket();
+        const file = await getMessageMediaFile(waLogger, sock, context.target);
+        const summary = {
+          type: "text" as const,
+          text: JSON.stringify(file, null, 2),
+        };
+        if (!include_content) {
+          return { content: [summary] };
+        }
+        if (file.size > MAX_INLINE_BYTES) {
+          return {
+            content: [
+              summary,
+              { type: "text", text: `File is too large to inline (${file.size} bytes); read it from the path above.` },
+            ],
+          };
+        }
+        const data = fs.readFileSync(file.path).toString("base64");
+        const mimeType = file.mimetype ?? "application/octet-stream";
+        if (context.target.media.media_type === "image" || context.target.media.media_type === "sticker") {
+          return { content: [summary, { type: "image", data, mimeType }] };
+        }
+        return {
+          content: [
+            summary,
+            { type: "resource", resource: { uri: `file://${file.path}`, mimeType, blob: data } },
+          ],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] download_media failed for ${message_id}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error downloading media: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_reactions",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of the message whose reactions to list"),
+    },
+    async ({ message_id }) => {
+      mcpLogger.info(`[MCP Tool] Executing get_reactions for msg ${message_id}`);
+      try {
+        const { target } = getMessagesAround(message_id, 0, 0);
+        if (!target) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
+          };
+        }
+        const denied = policyDenied("get_reactions", "read", target.chat_jid);
+        if (denied) return denied;
+        const reactions = getReactions(target.id, target.chat_jid);
+        const byEmoji: Record<string, { count: number; reactors: { jid: string; display: string; timestamp: string }[] }> = {};
+        for (const r of reactions) {
+          const entry = (byEmoji[r.emoji] ??= { count: 0, reactors: [] });
+          entry.count++;
+          entry.reactors.push({
+            jid: r.reactor_jid,
+            display: r.reactor_jid.split("@")[0],
+            timestamp: r.timestamp.toISOString(),
+          });
+        }
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ message_id: target.id, chat_jid: target.chat_jid, total: reactions.length, reactions: byEmoji }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_reactions failed for ${message_id}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error getting reactions: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_poll_results",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of the poll message"),
+      chat_jid: z
+        .string()
+        .optional()
+        .describe("The chat the poll was sent in (only needed if the ID is ambiguous)"),
+    },
+    async ({ message_id, chat_jid }) => {
+      mcpLogger.info(`[MCP Tool] Executing get_poll_results for msg ${message_id}`);
+      try {
+        const poll = getPoll(message_id, chat_jid);
+        if (!poll) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Poll with ID ${message_id} not found. Only polls received or sent while this server was linked can be tallied.` }],
+          };
+        }
+        const denied = policyDenied("get_poll_results", "read", poll.chat_jid);
+        if (denied) return denied;
+        // Withdrawn votes are kept as an empty selection
+        const votes = getPollVotes(poll.message_id, poll.chat_jid).filter(
+          (v) => v.selected_options.length > 0,
         );
+        const results = poll.options.map((option) => {
+          const voters = votes
+            .filter((v) => v.selected_options.includes(option))
+            .map((v) => ({
+              jid: v.voter_jid,
+              display: v.voter_jid.split("@")[0],
+              timestamp: v.timestamp.toISOString(),
+            }));
+          return { option, count: voters.length, voters };
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              message_id: poll.message_id,
+              chat_jid: poll.chat_jid,
+              question: poll.question,
+              allow_multiple: poll.selectable_count !== 1,
+              created_at: poll.created_at.toISOString(),
+              total_voters: votes.length,
+              results,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_poll_results failed for ${message_id}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error getting poll results: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_message_status",
+    {
+      message_id: z
+        .string()
+        .describe("The ID of a message we sent"),
+    },
+    async ({ message_id }) => {
+      mcpLogger.info(`[MCP Tool] Executing get_message_status for msg ${message_id}`);
+      try {
+        const { target } = getMessagesAround(message_id, 0, 0);
+        const denied = target ? policyDenied("get_message_status", "read", target.chat_jid) : null;
+        if (denied) return denied;
+        if (!target) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Message with ID ${message_id} not found in local database.` }],
+          };
+        }
+        if (!target.is_from_me) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Message ${message_id} was not sent by us; delivery status is only tracked for outgoing messages.` }],
+          };
+        }
+        const receipts = getMessageReceipts(target.id, target.chat_jid);
+        const recipients = receipts.map((r) => ({
+          jid: r.recipient_jid,
+          display: r.recipient_jid.split("@")[0],
+          delivered_at: r.delivered_at?.toISOString() ?? null,
+          read_at: r.read_at?.toISOString() ?? null,
+          played_at: r.played_at?.toISOString() ?? null,
+        }));
+        const status = {
+          message_id: target.id,
+          chat_jid: target.chat_jid,
+          status: target.status ?? "unknown",
+          delivered_count: recipients.filter((r) => r.delivered_at).length,
+          read_count: recipients.filter((r) => r.read_at).length,
+          played_count: recipients.filter((r) => r.played_at).length,
+          recipients,
+        };
         return {
-          content: [{ type: "text", text: `Reaction "${emoji}" sent successfully on message ${message_id}.` }],
+          content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
         };
       } catch (error: any) {
-        mcpLogger.error(`[MCP Tool Error] send_reaction failed: ${error.message}`);
+        mcpLogger.error(`[MCP Tool Error] get_message_status failed for ${message_id}: ${error.message}`);
         return {
           isError: true,
-          content: [{ type: "text", text: `Error sending reaction: ${error.message}` }],
+          content: [{ type: "text", text: `Error getting message status: ${error.message}` }],
         };
       }
     },
@@ -841,13 +1725,14 @@ export async function startMcpServer(
         .string()
         .describe("The JID of the chat to mark as read (e.g., '12345@s.whatsapp.net' or 'group@g.us')"),
     },
-    async ({ chat_jid }) => {
+    audited("mark_as_read", async ({ chat_jid }, audit) => {
       mcpLogger.info(`[MCP Tool] Executing mark_as_read for chat ${chat_jid}`);
+      audit.chat_jid = chat_jid;
+      const denied = policyDenied("mark_as_read", "read", chat_jid, audit);
+      if (denied) return denied;
+      const sock = await connection.waitForSocket();
       if (!sock) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
-        };
+        return notConnectedResult();
       }
       const messages = getMessages(chat_jid, 1, 0);
       if (!messages.length) {
@@ -857,6 +1742,7 @@ export async function startMcpServer(
         };
       }
       const lastMsg = messages[0];
+      audit.message_id = lastMsg.id;
       try {
         await markWhatsAppChatAsRead(
           waLogger,
@@ -866,6 +1752,7 @@ export async function startMcpServer(
           lastMsg.is_from_me,
           lastMsg.sender ?? null
         );
+        markChatRead(chat_jid, lastMsg.timestamp);
         return {
           content: [{ type: "text", text: `Chat ${chat_jid} marked as read.` }],
         };
@@ -876,7 +1763,7 @@ export async function startMcpServer(
           content: [{ type: "text", text: `Error marking chat as read: ${error.message}` }],
         };
       }
-    },
+    }),
   );
 
   server.tool(
@@ -888,12 +1775,8 @@ export async function startMcpServer(
     },
     async ({ group_jid }) => {
       mcpLogger.info(`[MCP Tool] Executing get_group_members for group ${group_jid}`);
-      if (!sock) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
-        };
-      }
+      const denied = policyDenied("get_group_members", "read", group_jid);
+      if (denied) return denied;
       if (!group_jid.endsWith("@g.us")) {
         return {
           isError: true,
@@ -901,14 +1784,34 @@ export async function startMcpServer(
         };
       }
       try {
-        const members = await getWhatsAppGroupMembers(waLogger, sock, group_jid);
-        if (!members.length) {
+        // Live when connected (which also refreshes the stored copy), else the last sync
+        const sock = connection.getStatus().state === "open" ? connection.getSocket() : null;
+        const members = sock ? await getWhatsAppGroupMembers(waLogger, sock, group_jid) : [];
+        if (members.length) {
           return {
-            content: [{ type: "text", text: `No members found for group ${group_jid} (or group does not exist).` }],
+            content: [{ type: "text", text: JSON.stringify(members, null, 2) }],
           };
         }
+        const stored = getGroup(group_jid);
+        if (stored?.participants?.length) {
+          const cached = stored.participants.map((p) => ({
+            jid: p.jid,
+            phone: (p.phone_number ?? p.jid).split("@")[0],
+            isAdmin: p.admin === "admin" || p.admin === "superadmin",
+            isSuperAdmin: p.admin === "superadmin",
+          }));
+          return {
+            content: [{
+              type: "text",
+              text: `${sock ? "Live lookup failed" : "WhatsApp is not connected"}; members as of ${stored.updated_at!.toISOString()}:\n${JSON.stringify(cached, null, 2)}`,
+            }],
+          };
+        }
+        if (!sock) {
+          return notConnectedResult();
+        }
         return {
-          content: [{ type: "text", text: JSON.stringify(members, null, 2) }],
+          content: [{ type: "text", text: `No members found for group ${group_jid} (or group does not exist).` }],
         };
       } catch (error: any) {
         mcpLogger.error(`[MCP Tool Error] get_group_members failed: ${error.message}`);
@@ -921,52 +1824,1183 @@ export async function startMcpServer(
   );
 
   server.tool(
-    "sync_contacts",
-    {},
-    async () => {
-      mcpLogger.info("[MCP Tool] Executing sync_contacts");
+    "create_group",
+    {
+      subject: z.string().min(1).max(100).describe("The group name"),
+      participants: z
+        .array(z.string())
+        .min(1)
+        .describe("People to add: contact names, phone numbers or JIDs"),
+    },
+    audited("create_group", async ({ subject, participants }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing create_group "${subject}" with ${participants.length} participant(s)`);
+      audit.details = { subject, participants };
+      const resolved = resolveParticipants(participants);
+      if (resolved.error) {
+        return { isError: true, content: [{ type: "text", text: resolved.error }] };
+      }
+      // Adding someone to a group messages them, so it needs "send" permission
+      for (const jid of resolved.jids!) {
+        const denied = policyDenied("create_group", "send", jid, audit);
+        if (denied) return denied;
+      }
+      const sock = await connection.waitForSocket();
       if (!sock) {
+        return notConnectedResult();
+      }
+      try {
+        const group = await createWhatsAppGroup(waLogger, sock, subject, resolved.jids!);
+        audit.chat_jid = group.jid;
+        const missing = resolved.jids!.filter((jid) => !group.participants.includes(jid));
+        return {
+          content: [{
+            type: "text",
+            text: `Created group "${group.subject}" (${group.jid}) with ${group.participants.length} member(s).${
+              missing.length
+                ? ` Not added (privacy settings may require an invite link; see get_group_invite_link): ${missing.join(", ")}.`
+                : ""
+            }`,
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] create_group failed: ${error.message}`);
         return {
           isError: true,
-          content: [{ type: "text", text: "Error: WhatsApp connection is not active." }],
+          content: [{ type: "text", text: `Error creating group: ${error.message}` }],
         };
       }
+    }),
+  );
+
+  server.tool(
+    "update_group_participants",
+    {
+      group: z.string().describe("The group: name or JID (e.g., '1234567890-1234567890@g.us')"),
+      action: z
+        .enum(["add", "remove", "promote", "demote"])
+        .describe("'add' / 'remove' members, or 'promote' / 'demote' admins"),
+      participants: z
+        .array(z.string())
+        .min(1)
+        .describe("Contact names, phone numbers or JIDs"),
+    },
+    audited("update_group_participants", async ({ group, action, participants }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing update_group_participants ${action} in ${group}`);
+      audit.details = { group, action, participants };
+      const resolvedGroup = resolveGroup(group);
+      if (resolvedGroup.error) {
+        return { isError: true, content: [{ type: "text", text: resolvedGroup.error }] };
+      }
+      const groupJid = resolvedGroup.jid!;
+      audit.chat_jid = groupJid;
+      const denied = policyDenied("update_group_participants", "manage", groupJid, audit);
+      if (denied) return denied;
+      const resolved = resolveParticipants(participants);
+      if (resolved.error) {
+        return { isError: true, content: [{ type: "text", text: resolved.error }] };
+      }
+      const sock = await connection.waitForSocket();
+      if (!sock) {
+        return notConnectedResult();
+      }
       try {
-        const count = syncContactsFromSock(waLogger, sock);
+        const results = await updateWhatsAppGroupParticipants(waLogger, sock, groupJid, resolved.jids!, action);
+        const failed = results.filter((r) => r.status !== "200");
+        audit.details = { ...audit.details, results };
+        const lines = results.map(
+          (r) => `• ${r.jid}: ${PARTICIPANT_STATUS_TEXT[r.status] ?? `failed (status ${r.status})`}`,
+        );
         return {
+          ...(failed.length === results.length ? { isError: true } : {}),
           content: [{
             type: "text",
-            text: count > 0
-              ? `Synced ${count} contact names from WhatsApp into the local database. You can now search contacts by name.`
-              : "No contact names were found to sync. The contacts map may not be populated yet — try again in a few seconds after the connection has fully loaded.",
+            text: `${action} in ${groupJid}: ${results.length - failed.length} of ${results.length} succeeded.\n${lines.join("\n")}`,
           }],
         };
       } catch (error: any) {
-        mcpLogger.error(`[MCP Tool Error] sync_contacts failed: ${error.message}`);
+        mcpLogger.error(`[MCP Tool Error] update_group_participants failed: ${error.message}`);
         return {
           isError: true,
-          content: [{ type: "text", text: `Error syncing contacts: ${error.message}` }],
+          content: [{ type: "text", text: `Error updating group participants: ${error.message}` }],
         };
       }
+    }),
+  );
+
+  server.tool(
+    "update_group",
+    {
+      group: z.string().describe("The group: name or JID"),
+      subject: z.string().min(1).max(100).optional().describe("New group name"),
+      description: z.string().optional().describe("New description; an empty string clears it"),
+      announcement_only: z
+        .boolean()
+        .optional()
+        .describe("true: only admins can send messages; false: everyone can"),
+      locked: z
+        .boolean()
+        .optional()
+        .describe("true: only admins can edit group info; false: everyone can"),
     },
+    audited("update_group", async ({ group, subject, description, announcement_only, locked }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing update_group for ${group}`);
+      const change = { subject, description, announcement_only, locked };
+      audit.details = { group, ...change };
+      if (Object.values(change).every((value) => value === undefined)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Nothing to change: give subject, description, announcement_only or locked." }],
+        };
+      }
+      const resolvedGroup = resolveGroup(group);
+      if (resolvedGroup.error) {
+        return { isError: true, content: [{ type: "text", text: resolvedGroup.error }] };
+      }
+      const groupJid = resolvedGroup.jid!;
+      audit.chat_jid = groupJid;
+      const denied = policyDenied("update_group", "manage", groupJid, audit);
+      if (denied) return denied;
+      const sock = await connection.waitForSocket();
+      if (!sock) {
+        return notConnectedResult();
+      }
+      try {
+        await updateWhatsAppGroupSettings(waLogger, sock, groupJid, change);
+        const changed = Object.entries(change)
+          .filter(([, value]) => value !== undefined)
+          .map(([key]) => key);
+        return {
+          content: [{ type: "text", text: `Updated ${changed.join(", ")} for group ${groupJid}.` }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] update_group failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error updating group (earlier changes in this call may have been applied): ${error.message}` }],
+        };
+      }
+    }),
   );
 
-  server.resource("db_schema", "schema://whatsapp/main", async (uri) => {
-    mcpLogger.info(`[MCP Resource] Request for ${uri.href}`);
-    const schemaText = `
-TABLE chats (jid TEXT PK, name TEXT, last_message_time TIMESTAMP)
-TABLE messages (id TEXT, chat_jid TEXT, sender TEXT, content TEXT, timestamp TIMESTAMP, is_from_me BOOLEAN, PK(id, chat_jid), FK(chat_jid) REFERENCES chats(jid))
-            `.trim();
-    return {
-      contents: [
-        {
-          uri: uri.href,
-          text: schemaText,
-        },
-      ],
+  server.tool(
+    "get_group_invite_link",
+    {
+      group: z.string().describe("The group: name or JID"),
+      revoke: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Invalidate the current link and return a new one (default false)"),
+    },
+    audited("get_group_invite_link", async ({ group, revoke }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing get_group_invite_link for ${group}, revoke=${revoke}`);
+      audit.details = { group, revoke };
+      const resolvedGroup = resolveGroup(group);
+      if (resolvedGroup.error) {
+        return { isError: true, content: [{ type: "text", text: resolvedGroup.error }] };
+      }
+      const groupJid = resolvedGroup.jid!;
+      audit.chat_jid = groupJid;
+      const denied = policyDenied("get_group_invite_link", "manage", groupJid, audit);
+      if (denied) return denied;
+      const sock = await connection.waitForSocket();
+      if (!sock) {
+        return notConnectedResult();
+      }
+      try {
+        const link = await getWhatsAppGroupInviteLink(waLogger, sock, groupJid, revoke);
+        return {
+          content: [{
+            type: "text",
+            text: revoke ? `Previous invite link revoked. New link: ${link}` : `Invite link: ${link}`,
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_group_invite_link failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error getting invite link (only admins can): ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "leave_group",
+    {
+      group: z.string().describe("The group: name or JID"),
+    },
+    audited("leave_group", async ({ group }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing leave_group for ${group}`);
+      audit.details = { group };
+      const resolvedGroup = resolveGroup(group);
+      if (resolvedGroup.error) {
+        return { isError: true, content: [{ type: "text", text: resolvedGroup.error }] };
+      }
+      const groupJid = resolvedGroup.jid!;
+      audit.chat_jid = groupJid;
+      const denied = policyDenied("leave_group", "manage", groupJid, audit);
+      if (denied) return denied;
+      const sock = await connection.waitForSocket();
+      if (!sock) {
+        return notConnectedResult();
+      }
+      try {
+        await leaveWhatsAppGroup(waLogger, sock, groupJid);
+        return {
+          content: [{ type: "text", text: `Left group ${groupJid}.` }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] leave_group failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error leaving group: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "sync_contacts",
+    {},
+    audited("sync_contacts", async (_args, audit) => {
+      mcpLogger.info("[MCP Tool] Executing sync_contacts");
+      const sock = await connection.waitForSocket();
+      if (!sock) {
+        return notConnectedResult();
+      }
+      try {
+        const count = syncContactsFromSock(waLogger, sock);
+        audit.details = { synced: count };
+        return {
+          content: [{
+            type: "text",
+            text: count > 0
+              ? `Synced ${count} contact names from WhatsApp into the local database. You can now search contacts by name.`
+              : "No contact names were found to sync. The contacts map may not be populated yet — try again in a few seconds after the connection has fully loaded.",
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] sync_contacts failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error syncing contacts: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "import_contacts",
+    {
+      file_name: z
+        .string()
+        .min(1)
+        .describe("Name of a vCard (.vcf), Google or Outlook CSV (.csv), or JSON export in data/imports/ (no directories)"),
+      default_country_code: z
+        .string()
+        .regex(/^\+?\d{1,3}$/)
+        .optional()
+        .describe(
+          "Country code for numbers written without one, e.g. \"44\". Defaults to CONTACTS_DEFAULT_COUNTRY_CODE",
+        ),
+    },
+    audited("import_contacts", async ({ file_name, default_country_code }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing import_contacts from ${file_name}`);
+      audit.details = { file_name };
+      let filePath: string;
+      try {
+        filePath = importFilePath(file_name);
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error: ${error.message}; put the address book in data/imports/ and pass its name.` }],
+        };
+      }
+      if (!fs.existsSync(filePath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Address book file not found in data/imports/: ${file_name}` }],
+        };
+      }
+      try {
+        const result = importAddressBook(
+          filePath,
+          default_country_code?.replace(/\D/g, "") ?? DEFAULT_COUNTRY_CODE,
+        );
+        audit.details = {
+          file_name,
+          imported: result.imported.length,
+          matched: result.matched.length,
+          invalid: result.invalid.length,
+        };
+        const report = {
+          contacts_read: result.contacts,
+          numbers_imported: result.imported.length,
+          duplicates_skipped: result.duplicates,
+          matched_on_whatsapp: result.matched.length,
+          matched: result.matched.slice(0, MAX_IMPORT_REPORT_ITEMS).map(({ name, phone, jid }) => ({
+            name,
+            phone: `+${phone}`,
+            jid,
+          })),
+          invalid: result.invalid.slice(0, MAX_IMPORT_REPORT_ITEMS),
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] import_contacts failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error importing contacts: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "import_chat_export",
+    {
+      file_name: z
+        .string()
+        .min(1)
+        .describe("Name of a WhatsApp \"Export chat\" file in data/imports/ (no directories): the .zip archive or its _chat.txt / .txt transcript"),
+      chat_jid: z
+        .string()
+        .describe("The JID of the chat the export belongs to"),
+      self_name: z
+        .string()
+        .optional()
+        .describe("The name your own messages appear under. Required for group exports; inferred for individual chats"),
+      sender_map: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Sender name → JID or phone number, for names that don't match a contact"),
+      date_order: z
+        .enum(DATE_ORDERS)
+        .optional()
+        .describe("Order of day, month and year in the export's dates; detected when omitted"),
+    },
+    audited("import_chat_export", async ({ file_name, chat_jid, self_name, sender_map, date_order }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing import_chat_export from ${file_name} into ${chat_jid}`);
+      audit.chat_jid = chat_jid;
+      audit.details = { file_name };
+      if (!chat_jid.includes("@")) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error: "${chat_jid}" is not a JID.` }],
+        };
+      }
+      const denied = policyDenied("import_chat_export", "read", chat_jid, audit);
+      if (denied) return denied;
+      let filePath: string;
+      try {
+        filePath = importFilePath(file_name);
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error: ${error.message}; put the export in data/imports/ and pass its name.` }],
+        };
+      }
+      if (!fs.existsSync(filePath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Chat export not found in data/imports/: ${file_name}` }],
+        };
+      }
+      try {
+        const result = importChatExport(filePath, chat_jid, {
+          selfName: self_name,
+          senderMap: sender_map,
+          dateOrder: date_order,
+        });
+        audit.details = {
+          file_name,
+          imported: result.imported,
+          duplicates: result.duplicates,
+          media_files: result.media_files,
+        };
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              first_message_at: result.first_message_at?.toISOString() ?? null,
+              last_message_at: result.last_message_at?.toISOString() ?? null,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] import_chat_export failed for ${chat_jid}: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error importing chat export: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "list_outbox",
+    {
+      status: z
+        .array(z.enum(OUTBOX_STATUSES))
+        .optional()
+        .describe("Only items in these states (default: queued and sending)"),
+      chat_jid: z
+        .string()
+        .optional()
+        .describe("Only items for this chat JID"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(20)
+        .describe("Max items per page (default 20)"),
+      page: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .default(0)
+        .describe("Page number (0-indexed, default 0)"),
+    },
+    async ({ status, chat_jid, limit, page }) => {
+      mcpLogger.info(`[MCP Tool] Executing list_outbox status=${status?.join(",") ?? "pending"}, chat=${chat_jid ?? "all"}`);
+      try {
+        const items = pageByPolicy(
+          "read",
+          (l, o) => listOutboxItems(status ?? ["queued", "sending"], chat_jid ?? null, l, o / l),
+          (item) => item.chat_jid,
+          limit,
+          page,
+        );
+        if (!items.length) {
+          return {
+            content: [{ type: "text", text: page === 0 ? "The outbox has no matching items." : `No more outbox items on page ${page}.` }],
+          };
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(items.map(formatOutboxItemForJson), null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] list_outbox failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error listing outbox: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "cancel_outbox_item",
+    {
+      id: z
+        .number()
+        .int()
+        .positive()
+        .describe("The outbox item ID, as shown by list_outbox or a send tool"),
+    },
+    audited("cancel_outbox_item", async ({ id }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing cancel_outbox_item for ${id}`);
+      audit.outbox_id = id;
+      const existing = getOutboxItem(id);
+      if (!existing) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Outbox item ${id} not found.` }],
+        };
+      }
+      const denied = policyDenied("cancel_outbox_item", "send", existing.chat_jid, audit);
+      if (denied) return denied;
+      try {
+        const cancelled = outbox.cancel(id);
+        if (cancelled) {
+          audit.chat_jid = cancelled.chat_jid;
+          return {
+            content: [{ type: "text", text: `Outbox item ${id} cancelled; it will not be sent.` }],
+          };
+        }
+        // Finished between the lookup and the cancel, or before it
+        const current = getOutboxItem(id) ?? existing;
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Outbox item ${id} can't be cancelled: it is already ${current.status}.` }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] cancel_outbox_item failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error cancelling outbox item: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "schedule_message",
+    {
+      recipient: z
+        .string()
+        .describe("Recipient: contact name, group name, phone number, or JID"),
+      send_at: z
+        .string()
+        .describe(
+          "When to send, as an ISO 8601 date-time (e.g. '2026-03-02T09:00:00+01:00'). Without an offset it is read in the server's local time zone. With a recurrence this is the first occurrence.",
+        ),
+      message: z
+        .string()
+        .optional()
+        .describe("Text to send; used as the caption when media_path is given"),
+      media_type: z
+        .enum(["image", "video", "document", "audio"])
+        .optional()
+        .describe("Type of media to send (requires media_path)"),
+      media_path: z
+        .string()
+        .optional()
+        .describe("Absolute local path to a media file; it must still exist when the message is sent"),
+      file_name: z
+        .string()
+        .optional()
+        .describe("Optional filename override (used for documents)"),
+      recurrence: z
+        .string()
+        .optional()
+        .describe(
+          "Optional repeat rule in iCalendar RRULE form, e.g. 'FREQ=WEEKLY;BYDAY=MO', 'FREQ=DAILY;INTERVAL=2;COUNT=5', 'FREQ=MONTHLY;UNTIL=20261231'. Supports FREQ (HOURLY/DAILY/WEEKLY/MONTHLY), INTERVAL, BYDAY, COUNT and UNTIL.",
+        ),
+      catch_up: z
+        .enum(SCHEDULE_CATCH_UP_POLICIES)
+        .optional()
+        .describe(
+          `What to do with runs missed while the server was down: 'send_once' sends one late copy, 'send_all' sends one per missed run, 'skip' drops them (default: ${DEFAULT_CATCH_UP_POLICY})`,
+        ),
+    },
+    audited("schedule_message", async ({ recipient, send_at, message, media_type, media_path, file_name, recurrence, catch_up }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing schedule_message to ${recipient} at ${send_at}${recurrence ? ` (${recurrence})` : ""}`);
+      audit.details = { recipient, send_at, recurrence: recurrence ?? null };
+      if (!message && !media_path) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Provide a message, a media_path, or both." }],
+        };
+      }
+      if (media_path && !media_type) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "media_type is required when media_path is given." }],
+        };
+      }
+      if (media_path && !fs.existsSync(media_path)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Media file not found: ${media_path}` }],
+        };
+      }
+      const resolved = resolveRecipient(recipient);
+      if (resolved.error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: resolved.error }],
+        };
+      }
+      const denied = policyDenied("schedule_message", "send", resolved.jid!, audit);
+      if (denied) return denied;
+      const payload: ScheduledMessage["payload"] = media_path
+        ? { kind: "media", media_type: media_type!, media_path, caption: message, file_name }
+        : { kind: "text", text: message! };
+      Object.assign(audit, { chat_jid: resolved.jid, ...summarizePayload(payload) });
+      try {
+        const job = scheduler.schedule(
+          resolved.jid!,
+          payload,
+          new Date(send_at),
+          recurrence?.trim() || null,
+          catch_up ?? DEFAULT_CATCH_UP_POLICY,
+        );
+        audit.schedule_id = job.id;
+        return {
+          content: [{
+            type: "text",
+            text: `Scheduled message ${job.id} for ${job.chat_jid}, next send at ${job.next_run_at?.toISOString()}${job.recurrence ? `, repeating ${job.recurrence}` : ""}.`,
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] schedule_message failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error scheduling message: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "list_scheduled",
+    {
+      include_finished: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also list completed and cancelled schedules (default false)"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(20)
+        .describe("Max schedules per page (default 20)"),
+      page: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .default(0)
+        .describe("Page number (0-indexed, default 0)"),
+    },
+    async ({ include_finished, limit, page }) => {
+      mcpLogger.info(`[MCP Tool] Executing list_scheduled include_finished=${include_finished}`);
+      try {
+        const jobs = pageByPolicy(
+          "read",
+          (l, o) => listScheduledMessages(include_finished ? null : ["active"], l, o / l),
+          (job) => job.chat_jid,
+          limit,
+          page,
+        );
+        if (!jobs.length) {
+          return {
+            content: [{ type: "text", text: page === 0 ? "No scheduled messages." : `No more scheduled messages on page ${page}.` }],
+          };
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(jobs.map(formatScheduledMessageForJson), null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] list_scheduled failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error listing scheduled messages: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "cancel_scheduled",
+    {
+      id: z
+        .number()
+        .int()
+        .positive()
+        .describe("The schedule ID, as shown by schedule_message or list_scheduled"),
+    },
+    audited("cancel_scheduled", async ({ id }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing cancel_scheduled for ${id}`);
+      audit.schedule_id = id;
+      const existing = getScheduledMessage(id);
+      if (!existing) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Scheduled message ${id} not found.` }],
+        };
+      }
+      const denied = policyDenied("cancel_scheduled", "send", existing.chat_jid, audit);
+      if (denied) return denied;
+      try {
+        const cancelled = scheduler.cancel(id);
+        if (cancelled) {
+          audit.chat_jid = cancelled.chat_jid;
+          return {
+            content: [{ type: "text", text: `Scheduled message ${id} cancelled; no further sends will happen. Copies already queued can be cancelled with cancel_outbox_item.` }],
+          };
+        }
+        const current = getScheduledMessage(id) ?? existing;
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Scheduled message ${id} can't be cancelled: it is already ${current.status}.` }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] cancel_scheduled failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error cancelling scheduled message: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "get_audit_log",
+    {
+      since: z
+        .string()
+        .optional()
+        .describe("Only entries at or after this ISO 8601 date-time"),
+      until: z
+        .string()
+        .optional()
+        .describe("Only entries before this ISO 8601 date-time"),
+      tool: z
+        .string()
+        .optional()
+        .describe("Only calls to this tool, e.g. send_message (scheduled runs are logged as 'scheduler')"),
+      chat_jid: z
+        .string()
+        .optional()
+        .describe("Only entries for this chat JID"),
+      status: z
+        .enum(AUDIT_STATUSES)
+        .optional()
+        .describe("Only entries with this outcome"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(20)
+        .describe("Max entries per page (default 20)"),
+      page: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .default(0)
+        .describe("Page number (0-indexed, default 0)"),
+    },
+    async ({ since, until, tool, chat_jid, status, limit, page }) => {
+      mcpLogger.info(`[MCP Tool] Executing get_audit_log tool=${tool ?? "*"}, chat=${chat_jid ?? "*"}`);
+      const sinceDate = since ? new Date(since) : null;
+      const untilDate = until ? new Date(until) : null;
+      if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: since and until must be ISO 8601 date-times." }],
+        };
+      }
+      if (chat_jid) {
+        const denied = policyDenied("get_audit_log", "read", chat_jid);
+        if (denied) return denied;
+      }
+      try {
+        // Entries without a chat (e.g. sync_contacts) are always shown
+        const entries = pageByPolicy(
+          "read",
+          (l, o) => getAuditLog({ since: sinceDate, until: untilDate, tool, chat_jid, status }, l, o / l),
+          (entry) => entry.chat_jid ?? null,
+          limit,
+          page,
+        );
+        if (!entries.length) {
+          return {
+            content: [{ type: "text", text: page === 0 ? "No matching audit log entries." : `No more audit log entries on page ${page}.` }],
+          };
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(entries.map(formatAuditEntryForJson), null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_audit_log failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error reading audit log: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_connection_status",
+    {},
+    async () => {
+      mcpLogger.info("[MCP Tool] Executing get_connection_status");
+      return {
+        content: [{ type: "text", text: JSON.stringify(connection.getStatus(), null, 2) }],
+      };
+    },
+  );
+
+  server.tool(
+    "login_status",
+    {},
+    async () => {
+      mcpLogger.info("[MCP Tool] Executing login_status");
+      const login = connection.getLoginState();
+      const status = connection.getStatus();
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            paired: login.paired,
+            state: login.state,
+            user: status.user,
+            qr_pending: Boolean(login.qr),
+            qr_updated_at: login.qr_updated_at,
+            qr_png_path: login.qr_png_path,
+            pairing_phone: login.pairing_phone,
+            pairing_code: login.pairing_code,
+            pairing_code_issued_at: login.pairing_code_issued_at,
+          }, null, 2),
+        }],
+      };
+    },
+  );
+
+  server.tool(
+    "get_login_qr",
+    {},
+    async () => {
+      mcpLogger.info("[MCP Tool] Executing get_login_qr");
+      const login = connection.getLoginState();
+      if (login.state === "open") {
+        return {
+          content: [{ type: "text", text: "Already linked: the WhatsApp connection is open. No QR code is needed." }],
+        };
+      }
+      if (!login.qr) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: `No QR code is pending (state: ${login.state}). WhatsApp issues a new code every ~20 seconds while unpaired; try again shortly.`,
+          }],
+        };
+      }
+      try {
+        const png = await renderQrPngBase64(login.qr);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Scan with WhatsApp > Settings > Linked Devices > Link a Device. Generated ${login.qr_updated_at}; codes rotate about every 20 seconds. Call login_status to confirm pairing.`,
+            },
+            { type: "image", data: png, mimeType: "image/png" },
+          ],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_login_qr failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error rendering QR code: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "request_pairing_code",
+    {
+      phone_number: z
+        .string()
+        .min(1)
+        .describe("The WhatsApp account's phone number in international format, e.g. +14155550123"),
+    },
+    audited("request_pairing_code", async ({ phone_number }, audit) => {
+      mcpLogger.info(`[MCP Tool] Executing request_pairing_code for ${phone_number}`);
+      audit.details = { phone_number };
+      if (connection.getLoginState().paired) {
+        return {
+          content: [{ type: "text", text: "Already linked to a WhatsApp account. No pairing code is needed." }],
+        };
+      }
+      try {
+        const code = await connection.requestPairingCode(phone_number);
+        return {
+          content: [{
+            type: "text",
+            text: `Pairing code: ${code}\nOn the phone, open WhatsApp > Settings > Linked Devices > Link a Device > Link with phone number instead, and enter the code. Call login_status to confirm pairing.`,
+          }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] request_pairing_code failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error requesting pairing code: ${error.message}` }],
+        };
+      }
+    }),
+  );
+
+  server.tool(
+    "get_schema_status",
+    {},
+    async () => {
+      mcpLogger.info("[MCP Tool] Executing get_schema_status");
+      try {
+        const status = getDatabaseSchemaStatus();
+        return {
+          content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
+        };
+      } catch (error: any) {
+        mcpLogger.error(`[MCP Tool Error] get_schema_status failed: ${error.message}`);
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error reading schema status: ${error.message}` }],
+        };
+      }
+    },
+  );
+
+  server.resource("db_schema", "schema://whatsapp/main", async (uri) => {
+    mcpLogger.info(`[MCP Resource] Request for ${uri.href}`);
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: getSchemaDescription(),
+        },
+      ],
     };
   });
 
+  // Template variables arrive as sent; JIDs may be percent-encoded
+  const readableChatJid = (variables: Record<string, string | string[]>) => {
+    const raw = variables.jid;
+    const jid = decodeURIComponent(Array.isArray(raw) ? raw[0] : raw);
+    const decision = checkPolicy("read", jid);
+    if (!decision.allowed) throw new Error(formatPolicyDenial(decision));
+    return jid;
+  };
+
+  const listChatResources = (uriFor: (jid: string) => string, describe: (name: string) => string) => () => ({
+    resources: pageByPolicy(
+      "read",
+      (l, o) => getChats(l, o / l, "last_active", null, false),
+      (chat) => chat.jid,
+      RESOURCE_CHAT_LIMIT,
+    ).map((chat) => {
+      const name = formatDbChatForJson(chat).name;
+      return { uri: uriFor(chat.jid), name: describe(name), mimeType: "application/json" };
+    }),
+  });
+
+  server.resource(
+    "chats",
+    CHATS_RESOURCE_URI,
+    { description: `The ${RESOURCE_CHAT_LIMIT} most recently active chats`, mimeType: "application/json" },
+    async (uri) => {
+      mcpLogger.info(`[MCP Resource] Request for ${uri.href}`);
+      const chats = pageByPolicy("read", (l, o) => getChats(l, o / l), (chat) => chat.jid, RESOURCE_CHAT_LIMIT);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(chats.map(formatDbChatForJson), null, 2),
+        }],
+      };
+    },
+  );
+
+  server.resource(
+    "chat",
+    new ResourceTemplate("whatsapp://chat/{jid}", {
+      list: listChatResources(chatResourceUri, (name) => name),
+    }),
+    { description: "A chat with its last message", mimeType: "application/json" },
+    async (uri, variables) => {
+      mcpLogger.info(`[MCP Resource] Request for ${uri.href}`);
+      const chat = getChat(readableChatJid(variables));
+      if (!chat) throw new Error(`Chat not found: ${variables.jid}`);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(formatDbChatForJson(chat), null, 2),
+        }],
+      };
+    },
+  );
+
+  server.resource(
+    "chat_messages",
+    new ResourceTemplate("whatsapp://chat/{jid}/messages", {
+      list: listChatResources(chatMessagesResourceUri, (name) => `${name} messages`),
+    }),
+    {
+      description: `A chat's ${RESOURCE_MESSAGE_LIMIT} most recent messages, newest first`,
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      mcpLogger.info(`[MCP Resource] Request for ${uri.href}`);
+      const messages = getMessages(readableChatJid(variables), RESOURCE_MESSAGE_LIMIT, 0);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(messages.map(formatDbMessageForJson), null, 2),
+        }],
+      };
+    },
+  );
+
+  // Subscribed chat resources: canonical URI → URI as the client sent it
+  const subscriptions = new Map<string, string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const resource = parseChatResourceUri(request.params.uri);
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Subscriptions are only offered for chat resources, not ${request.params.uri}`);
+    }
+    if (resource.jid) {
+      const decision = checkPolicy("read", resource.jid);
+      if (!decision.allowed) throw new McpError(ErrorCode.InvalidParams, formatPolicyDenial(decision));
+    }
+    mcpLogger.info(`[MCP Resource] Subscribed to ${resource.uri}`);
+    subscriptions.set(resource.uri, request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const resource = parseChatResourceUri(request.params.uri);
+    if (resource && subscriptions.delete(resource.uri)) {
+      mcpLogger.info(`[MCP Resource] Unsubscribed from ${resource.uri}`);
+    }
+    return {};
+  });
+
+  const stopListening = connection.onMessagesStored((chatJids) => {
+    const readable = chatJids.filter((jid) => checkPolicy("read", jid).allowed);
+    if (!subscriptions.size || !readable.length) return;
+    const updated = [CHATS_RESOURCE_URI, ...readable.flatMap((jid) => [chatResourceUri(jid), chatMessagesResourceUri(jid)])];
+    for (const uri of updated) {
+      const subscribed = subscriptions.get(uri);
+      if (!subscribed) continue;
+      server.server.sendResourceUpdated({ uri: subscribed }).catch((error: any) => {
+        mcpLogger.warn(`[MCP Resource] Failed to notify ${subscribed}: ${error.message}`);
+      });
+    }
+  });
+  server.server.onclose = () => {
+    stopListening();
+    subscriptions.clear();
+  };
+
+
+  // Prompt arguments are strings; `since` defaults to `defaultHours` ago
+  const promptSince = (since: string | undefined, defaultHours: number) => {
+    const date = since ? new Date(since) : new Date(Date.now() - defaultHours * 3600_000);
+    if (isNaN(date.getTime())) throw new Error("since must be an ISO 8601 date-time.");
+    return date;
+  };
+  const readableJid = (jid: string) => {
+    const decision = checkPolicy("read", jid);
+    if (!decision.allowed) throw new Error(formatPolicyDenial(decision));
+    return jid;
+  };
+  const canRead = (jid: string) => checkPolicy("read", jid).allowed;
+  const promptResult = ({ description, text }: PromptText) => ({
+    description,
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  });
+
+  server.prompt(
+    "summarize_chat",
+    "Summarize a chat since a point in time",
+    {
+      chat_jid: z.string().describe("The JID of the chat to summarize"),
+      since: z.string().optional().describe("ISO 8601 date-time to start from (default: 24 hours ago)"),
+    },
+    async ({ chat_jid, since }) => {
+      mcpLogger.info(`[MCP Prompt] summarize_chat for ${chat_jid}`);
+      return promptResult(summarizeChatPrompt(readableJid(chat_jid), promptSince(since, 24)));
+    },
+  );
+
+  server.prompt(
+    "draft_reply",
+    "Draft a reply to the last message in a chat",
+    {
+      chat_jid: z.string().describe("The JID of the chat to reply in"),
+      instructions: z.string().optional().describe("What the reply should say, e.g. \"accept, but suggest Friday\""),
+    },
+    async ({ chat_jid, instructions }) => {
+      mcpLogger.info(`[MCP Prompt] draft_reply for ${chat_jid}`);
+      return promptResult(draftReplyPrompt(readableJid(chat_jid), instructions || null));
+    },
+  );
+
+  server.prompt(
+    "catch_up_groups",
+    "Catch up on the unread messages in groups that aren't muted",
+    {
+      since: z.string().optional().describe("Only unread messages at or after this ISO 8601 date-time"),
+    },
+    async ({ since }) => {
+      mcpLogger.info("[MCP Prompt] catch_up_groups");
+      return promptResult(catchUpGroupsPrompt(since ? promptSince(since, 0) : null, canRead));
+    },
+  );
+
+  server.prompt(
+    "find_action_items",
+    "Find requests, questions and tasks assigned to you",
+    {
+      since: z.string().optional().describe("ISO 8601 date-time to look back to (default: 7 days ago)"),
+      chat_jid: z.string().optional().describe("Only this chat (default: all chats)"),
+    },
+    async ({ since, chat_jid }) => {
+      mcpLogger.info(`[MCP Prompt] find_action_items in ${chat_jid ?? "all chats"}`);
+      const sock = connection.getSocket();
+      return promptResult(
+        actionItemsPrompt(
+          promptSince(since, 24 * 7),
+          chat_jid ? readableJid(chat_jid) : null,
+          { name: sock?.user?.name ?? null, jid: getSelfJid(sock) },
+          canRead,
+        ),
+      );
+    },
+  );
+
+  return server;
+}
+
+export async function startMcpServer(
+  connection: WhatsAppConnection,
+  outbox: Outbox,
+  scheduler: Scheduler,
+  mcpLogger: P.Logger,
+  waLogger: P.Logger,
+): Promise<void> {
+  mcpLogger.info("Initializing MCP server...");
+
+  const transportKind = (process.env.MCP_TRANSPORT || "stdio").toLowerCase();
+
+  if (transportKind === "http") {
+    const authToken = process.env.MCP_AUTH_TOKEN;
+    if (!authToken) {
+      throw new Error(
+        "MCP_TRANSPORT=http requires MCP_AUTH_TOKEN to be set (clients send it as a Bearer token).",
+      );
+    }
+    await startHttpTransport(
+      () => createMcpServer(connection, outbox, scheduler, mcpLogger, waLogger),
+      mcpLogger,
+      {
+        host: process.env.MCP_HTTP_HOST || "127.0.0.1",
+        port: Number(process.env.MCP_HTTP_PORT || 3000),
+        authToken,
+        sessionIdleMs: Number(process.env.MCP_SESSION_IDLE_MINUTES || 30) * 60_000,
+      },
+    );
+    mcpLogger.info(
+      "MCP Server setup complete. Waiting for HTTP client sessions...",
+    );
+    return;
+  }
+
+  if (transportKind !== "stdio") {
+    throw new Error(
+      `Unknown MCP_TRANSPORT "${transportKind}". Use "stdio" (default) or "http".`,
+    );
+  }
+
+  const server = createMcpServer(connection, outbox, scheduler, mcpLogger, waLogger);
   const transport = new StdioServerTransport();
   mcpLogger.info("MCP server configured. Connecting stdio transport...");
 
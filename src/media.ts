@@ -0,0 +1,186 @@
+import { downloadMediaMessage, type WAMessage } from "@whiskeysockets/baileys";
+import P from "pino";
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+import {
+  type Message as DbMessage,
+  type MessageMedia,
+  setMediaCachePath,
+  clearMediaCachePath,
+} from "./database.ts";
+import { MEDIA_MESSAGE_FIELDS, type WhatsAppSocket } from "./whatsapp.ts";
+
+const MEDIA_DIR = path.join(import.meta.dirname, "..", "data", "media");
+
+// Limits are configurable in megabytes via the environment
+const MB = 1024 * 1024;
+const MAX_CACHE_BYTES = Number(process.env.MEDIA_CACHE_MAX_MB || 1024) * MB;
+const MAX_FILE_BYTES = Number(process.env.MEDIA_MAX_FILE_MB || 100) * MB;
+// Largest file download_media will inline into the tool result
+export const MAX_INLINE_BYTES = 10 * MB;
+
+export interface CachedMedia {
+  path: string;
+  mimetype: string | null;
+  file_name: string | null;
+  size: number;
+  sha256: string;
+  from_cache: boolean;
+}
+
+function extensionFor(media: MessageMedia): string {
+  const fromName = media.file_name ? path.extname(media.file_name) : "";
+  if (/^\.[\w-]{1,10}$/.test(fromName)) return fromName.toLowerCase();
+  const subtype = media.mimetype?.split(";")[0].split("/")[1];
+  if (subtype && /^[\w.+-]{1,20}$/.test(subtype)) {
+    const ext = subtype.replace(/^x-/, "").replace(/\+.*$/, "");
+    return `.${ext === "jpeg" ? "jpg" : ext}`;
+  }
+  return ".bin";
+}
+
+/** Rebuilds the minimal WAMessage Baileys needs to download and decrypt media. */
+function toDownloadableMessage(message: DbMessage, media: MessageMedia): WAMessage {
+  const fromBase64 = (value?: string | null) =>
+    value ? Buffer.from(value, "base64") : undefined;
+  return {
+    key: {
+      id: message.id,
+      remoteJid: message.chat_jid,
+      fromMe: message.is_from_me,
+      participant: message.sender ?? undefined,
+    },
+    message: {
+      [MEDIA_MESSAGE_FIELDS[media.media_type]]: {
+        url: media.url ?? undefined,
+        directPath: media.direct_path ?? undefined,
+        mediaKey: fromBase64(media.media_key),
+        mimetype: media.mimetype ?? undefined,
+        fileSha256: fromBase64(media.file_sha256),
+        fileEncSha256: fromBase64(media.file_enc_sha256),
+        fileLength: media.file_length ?? undefined,
+        mediaKeyTimestamp: media.media_key_timestamp ?? undefined,
+        fileName: media.file_name ?? undefined,
+      },
+    },
+  } as WAMessage;
+}
+
+/**
+ * Returns a local copy of a message's attachment, downloading and decrypting it
+ * into the content-addressed cache under data/media/ when it isn't there yet.
+ * Files are named by the SHA-256 of their decrypted content, so identical media
+ * forwarded across chats is stored once.
+ */
+export async function getMessageMediaFile(
+  logger: P.Logger,
+  sock: WhatsAppSocket | null,
+  message: DbMessage,
+): Promise<CachedMedia> {
+  const media = message.media;
+  if (!media) {
+    throw new Error(`Message ${message.id} has no downloadable media.`);
+  }
+
+  if (media.cache_path && fs.existsSync(media.cache_path)) {
+    const now = new Date();
+    fs.utimesSync(media.cache_path, now, now); // mark as recently used for eviction
+    return {
+      path: media.cache_path,
+      mimetype: media.mimetype ?? null,
+      file_name: media.file_name ?? null,
+      size: fs.statSync(media.cache_path).size,
+      sha256: path.basename(media.cache_path, path.extname(media.cache_path)),
+      from_cache: true,
+    };
+  }
+
+  if (!media.media_key || !(media.direct_path || media.url)) {
+    throw new Error(
+      `Message ${message.id} is missing the media key or URL needed to download it.`,
+    );
+  }
+  if (media.file_length && media.file_length > MAX_FILE_BYTES) {
+    throw new Error(
+      `Media is ${(media.file_length / MB).toFixed(1)} MB, above the ${MAX_FILE_BYTES / MB} MB limit (MEDIA_MAX_FILE_MB).`,
+    );
+  }
+  if (!sock || !sock.user) {
+    throw new Error("WhatsApp connection is not active.");
+  }
+
+  const buffer = await downloadMediaMessage(
+    toDownloadableMessage(message, media),
+    "buffer",
+    {},
+    // Expired URLs are refreshed by asking the sender's phone to re-upload
+    { logger, reuploadRequest: sock.updateMediaMessage },
+  );
+  if (buffer.length > MAX_FILE_BYTES) {
+    throw new Error(
+      `Downloaded media exceeds the ${MAX_FILE_BYTES / MB} MB limit (MEDIA_MAX_FILE_MB).`,
+    );
+  }
+
+  const sha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+  const cachePath = path.join(MEDIA_DIR, `${sha256}${extensionFor(media)}`);
+  if (!fs.existsSync(MEDIA_DIR)) {
+    fs.mkdirSync(MEDIA_DIR, { recursive: true });
+  }
+  if (!fs.existsSync(cachePath)) {
+    fs.writeFileSync(cachePath, buffer);
+  }
+  setMediaCachePath(message.id, message.chat_jid, cachePath);
+  logger.info(
+    { msgId: message.id, cachePath, size: buffer.length },
+    "Media downloaded into cache",
+  );
+
+  evictMediaCache(logger, cachePath);
+
+  return {
+    path: cachePath,
+    mimetype: media.mimetype ?? null,
+    file_name: media.file_name ?? null,
+    size: buffer.length,
+    sha256,
+    from_cache: false,
+  };
+}
+
+/**
+ * Deletes least-recently-used files until the cache fits within
+ * MEDIA_CACHE_MAX_MB. `keepPath` (the file just fetched) is never evicted.
+ */
+export function evictMediaCache(logger: P.Logger, keepPath?: string): number {
+  if (!fs.existsSync(MEDIA_DIR)) return 0;
+  const files = fs
+    .readdirSync(MEDIA_DIR)
+    .map((name) => {
+      const filePath = path.join(MEDIA_DIR, name);
+      const stat = fs.statSync(filePath);
+      return { filePath, size: stat.size, mtime: stat.mtimeMs };
+    })
+    .sort((a, b) => a.mtime - b.mtime);
+
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  let evicted = 0;
+  for (const file of files) {
+    if (total <= MAX_CACHE_BYTES) break;
+    if (file.filePath === keepPath) continue;
+    try {
+      fs.unlinkSync(file.filePath);
+      clearMediaCachePath(file.filePath);
+      total -= file.size;
+      evicted++;
+    } catch (error) {
+      logger.warn({ err: error, file: file.filePath }, "Failed to evict cached media");
+    }
+  }
+  if (evicted > 0) {
+    logger.info({ evicted, remainingBytes: total }, "Evicted media from cache");
+  }
+  return evicted;
+}
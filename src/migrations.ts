@@ -0,0 +1,605 @@
+import type { DatabaseSync } from "node:sqlite";
+
+/**
+ * A single schema change. Migrations are applied in ascending `version` order
+ * and the highest applied version is recorded in `PRAGMA user_version`.
+ * Never edit a migration that has shipped — add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  /** Drops or rewrites existing data; a backup is taken before it runs. */
+  destructive?: boolean;
+  up: (db: DatabaseSync) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial chats and messages schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chats (
+            jid TEXT PRIMARY KEY,
+            name TEXT,
+            last_message_time TEXT -- Store dates as ISO strings
+        );
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS messages (
+            id TEXT,
+            chat_jid TEXT,
+            sender TEXT,      -- JID of the sender (can be group participant or contact)
+            content TEXT,
+            timestamp TEXT, -- Store dates as ISO strings
+            is_from_me INTEGER, -- Store booleans as 0 or 1
+            PRIMARY KEY (id, chat_jid),
+            FOREIGN KEY (chat_jid) REFERENCES chats(jid) ON DELETE CASCADE
+        );
+      `);
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages (timestamp);`,
+      );
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_messages_chat_jid ON messages (chat_jid);`,
+      );
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages (sender);`,
+      );
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_chats_last_message_time ON chats (last_message_time);`,
+      );
+      // Fix corrupted "undefined" strings written by earlier bug
+      db.exec(
+        `UPDATE chats SET last_message_time = NULL WHERE last_message_time = 'undefined'`,
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "full-text search index on message content",
+    up: (db) => {
+      // External-content FTS5 table keyed on the messages rowid, kept in sync
+      // by the triggers below.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+            content,
+            content = 'messages',
+            content_rowid = 'rowid',
+            tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_ai AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_ad AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_au AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      // Backfill rows stored before the index existed
+      db.exec(`INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')`);
+    },
+  },
+  {
+    version: 3,
+    name: "media descriptors per message",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE message_media (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            media_type TEXT NOT NULL, -- image | video | document | audio | sticker
+            mimetype TEXT,
+            file_name TEXT,
+            file_length INTEGER,
+            url TEXT,
+            direct_path TEXT,
+            media_key TEXT,        -- base64
+            file_sha256 TEXT,      -- base64, hash of the decrypted file
+            file_enc_sha256 TEXT,  -- base64, hash of the encrypted upload
+            media_key_timestamp INTEGER,
+            cache_path TEXT,       -- set once downloaded into data/media/
+            PRIMARY KEY (message_id, chat_jid),
+            FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid) ON DELETE CASCADE
+        );
+      `);
+      db.exec(
+        `CREATE INDEX idx_message_media_cache_path ON message_media (cache_path);`,
+      );
+    },
+  },
+  {
+    version: 4,
+    name: "message edits and deletions with revision history",
+    up: (db) => {
+      db.exec(`ALTER TABLE messages ADD COLUMN edited_at TEXT;`);
+      db.exec(`ALTER TABLE messages ADD COLUMN deleted_at TEXT;`);
+      db.exec(`
+        CREATE TABLE message_revisions (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            revision INTEGER NOT NULL, -- 1 = original content
+            content TEXT,
+            replaced_at TEXT,          -- when this revision was superseded by an edit or deletion
+            PRIMARY KEY (message_id, chat_jid, revision),
+            FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "message reactions",
+    up: (db) => {
+      // No FK to messages: reactions can arrive before the message they target
+      db.exec(`
+        CREATE TABLE reactions (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            reactor_jid TEXT NOT NULL,
+            emoji TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            PRIMARY KEY (message_id, chat_jid, reactor_jid, emoji)
+        );
+      `);
+      db.exec(
+        `CREATE INDEX idx_reactions_reactor ON reactions (message_id, chat_jid, reactor_jid);`,
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "delivery status and per-recipient receipts",
+    up: (db) => {
+      // WebMessageInfo.Status: 0 error, 1 pending, 2 server ack, 3 delivered, 4 read, 5 played
+      db.exec(`ALTER TABLE messages ADD COLUMN status INTEGER;`);
+      db.exec(`
+        CREATE TABLE message_receipts (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            recipient_jid TEXT NOT NULL,
+            delivered_at TEXT,
+            read_at TEXT,
+            played_at TEXT,
+            PRIMARY KEY (message_id, chat_jid, recipient_jid)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "persistent outbound message queue",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE outbox (
+            id INTEGER PRIMARY KEY AUTOINCREMENT, -- also the per-chat send order
+            chat_jid TEXT NOT NULL,
+            kind TEXT NOT NULL,          -- text | media | reply | reaction
+            payload TEXT NOT NULL,       -- JSON, shape depends on kind
+            status TEXT NOT NULL,        -- queued | sending | sent | failed | cancelled
+            attempts INTEGER NOT NULL DEFAULT 0,
+            max_attempts INTEGER NOT NULL,
+            next_attempt_at TEXT NOT NULL,
+            last_error TEXT,
+            sent_message_id TEXT,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+      `);
+      db.exec(
+        `CREATE INDEX idx_outbox_status_next ON outbox (status, next_attempt_at);`,
+      );
+      db.exec(`CREATE INDEX idx_outbox_chat ON outbox (chat_jid, id);`);
+    },
+  },
+  {
+    version: 8,
+    name: "scheduled messages",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE scheduled_messages (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            chat_jid TEXT NOT NULL,
+            payload TEXT NOT NULL,       -- JSON outbox payload (text or media)
+            starts_at TEXT NOT NULL,     -- first occurrence; anchors the recurrence
+            recurrence TEXT,             -- RRULE subset, NULL for one-off messages
+            catch_up TEXT NOT NULL,      -- send_once | send_all | skip
+            next_run_at TEXT,            -- NULL once completed or cancelled
+            status TEXT NOT NULL,        -- active | completed | cancelled
+            run_count INTEGER NOT NULL DEFAULT 0,
+            last_run_at TEXT,
+            last_outbox_id INTEGER,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+      `);
+      db.exec(
+        `CREATE INDEX idx_scheduled_messages_due ON scheduled_messages (status, next_run_at);`,
+      );
+    },
+  },
+  {
+    version: 9,
+    name: "recipient policy rules",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE policy_rules (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            action TEXT NOT NULL,   -- send | react | read | manage | *
+            effect TEXT NOT NULL,   -- allow | deny
+            pattern TEXT NOT NULL,  -- JID glob, phone number, 'groups' or 'individuals'
+            note TEXT,
+            created_at TEXT NOT NULL
+        );
+      `);
+      db.exec(`
+        CREATE TABLE policy_defaults (
+            action TEXT PRIMARY KEY, -- send | react | read | manage
+            effect TEXT NOT NULL     -- allow | deny
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "audit log of mutating actions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            timestamp TEXT NOT NULL,
+            tool TEXT NOT NULL,          -- MCP tool name, or 'scheduler' for scheduled sends
+            status TEXT NOT NULL,        -- ok | queued | error | denied
+            chat_jid TEXT,               -- resolved recipient
+            content_preview TEXT,
+            content_sha256 TEXT,
+            message_id TEXT,             -- WhatsApp message ID of the result, when known
+            outbox_id INTEGER,
+            schedule_id INTEGER,
+            error TEXT,
+            client_name TEXT,
+            client_version TEXT,
+            session_id TEXT,
+            details TEXT                 -- JSON, tool-specific
+        );
+      `);
+      db.exec(`CREATE INDEX idx_audit_log_timestamp ON audit_log (timestamp);`);
+      db.exec(`CREATE INDEX idx_audit_log_tool ON audit_log (tool, timestamp);`);
+      db.exec(`CREATE INDEX idx_audit_log_chat ON audit_log (chat_jid, timestamp);`);
+    },
+  },
+  {
+    version: 11,
+    name: "polls and poll votes",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE polls (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            creator_jid TEXT NOT NULL,   -- as used in vote encryption
+            question TEXT NOT NULL,
+            options TEXT NOT NULL,       -- JSON array of option names
+            selectable_count INTEGER NOT NULL, -- 1 = single choice, 0 = any number
+            enc_key TEXT NOT NULL,       -- base64 messageSecret, needed to decrypt votes
+            created_at TEXT NOT NULL,
+            PRIMARY KEY (message_id, chat_jid)
+        );
+      `);
+      // One row per voter: a new vote replaces the voter's previous selection
+      db.exec(`
+        CREATE TABLE poll_votes (
+            poll_message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            voter_jid TEXT NOT NULL,
+            selected_options TEXT NOT NULL, -- JSON array of option names; [] = vote withdrawn
+            timestamp TEXT NOT NULL,
+            PRIMARY KEY (poll_message_id, chat_jid, voter_jid),
+            FOREIGN KEY (poll_message_id, chat_jid) REFERENCES polls(message_id, chat_jid) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "structured location and contact card messages",
+    up: (db) => {
+      // No column change, but outbox.kind (v7) now takes
+      // text | media | reply | reaction | poll | location | contacts
+      db.exec(`
+        CREATE TABLE message_locations (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            latitude REAL NOT NULL,
+            longitude REAL NOT NULL,
+            name TEXT,
+            address TEXT,
+            url TEXT,
+            is_live INTEGER NOT NULL DEFAULT 0,
+            PRIMARY KEY (message_id, chat_jid),
+            FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid) ON DELETE CASCADE
+        );
+      `);
+      db.exec(`
+        CREATE TABLE message_contacts (
+            message_id TEXT NOT NULL,
+            chat_jid TEXT NOT NULL,
+            position INTEGER NOT NULL,   -- order within a multi-contact message
+            display_name TEXT,
+            phone_numbers TEXT NOT NULL, -- JSON array of digit strings from the vCard
+            vcard TEXT,
+            PRIMARY KEY (message_id, chat_jid, position),
+            FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "group metadata and participants",
+    up: (db) => {
+      // Groups we are currently a member of, mirrored from WhatsApp
+      db.exec(`
+        CREATE TABLE groups (
+            jid TEXT PRIMARY KEY,
+            subject TEXT,
+            owner TEXT,
+            description TEXT,
+            created_at TEXT,
+            announce INTEGER NOT NULL DEFAULT 0, -- only admins can send
+            restrict INTEGER NOT NULL DEFAULT 0, -- only admins can edit group info
+            is_community INTEGER NOT NULL DEFAULT 0,
+            linked_parent TEXT,                  -- community JID, if any
+            addressing_mode TEXT,                -- 'pn' or 'lid'
+            ephemeral_duration INTEGER,
+            updated_at TEXT NOT NULL
+        );
+      `);
+      db.exec(`CREATE INDEX idx_groups_subject ON groups (subject COLLATE NOCASE);`);
+      db.exec(`
+        CREATE TABLE group_participants (
+            group_jid TEXT NOT NULL,
+            participant_jid TEXT NOT NULL, -- as WhatsApp reports it: phone JID or LID
+            lid TEXT,
+            phone_number TEXT,
+            admin TEXT,                    -- NULL | 'admin' | 'superadmin'
+            PRIMARY KEY (group_jid, participant_jid),
+            FOREIGN KEY (group_jid) REFERENCES groups(jid) ON DELETE CASCADE
+        );
+      `);
+      db.exec(`CREATE INDEX idx_group_participants_member ON group_participants (participant_jid);`);
+    },
+  },
+  {
+    version: 14,
+    name: "contacts table separate from chats",
+    // Deletes the chat rows that only existed to hold a contact's name
+    destructive: true,
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE contacts (
+            jid TEXT PRIMARY KEY,
+            name TEXT,            -- saved address-book name
+            notify TEXT,          -- push name the contact set themselves
+            verified_name TEXT,   -- verified business name
+            phone TEXT,           -- digits only, e.g. 14155550123
+            lid TEXT,             -- LID JID, when known
+            sources TEXT NOT NULL DEFAULT '{}', -- JSON: field -> where its value came from
+            updated_at TEXT NOT NULL
+        );
+      `);
+      db.exec(`CREATE INDEX idx_contacts_phone ON contacts (phone);`);
+      db.exec(`CREATE INDEX idx_contacts_lid ON contacts (lid);`);
+      // Names were stored on chat rows until now; keep them as contact names
+      db.exec(`
+        INSERT INTO contacts (jid, name, phone, sources, updated_at)
+        SELECT
+            jid,
+            name,
+            CASE WHEN jid LIKE '%@s.whatsapp.net' THEN substr(jid, 1, instr(jid, '@') - 1) END,
+            CASE WHEN jid LIKE '%@s.whatsapp.net'
+                THEN json_object('name', 'chats', 'phone', 'chats')
+                ELSE json_object('name', 'chats')
+            END,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+        FROM chats
+        WHERE jid NOT LIKE '%@g.us' AND name IS NOT NULL;
+      `);
+      db.exec(`
+        DELETE FROM chats
+        WHERE last_message_time IS NULL
+          AND jid NOT LIKE '%@g.us'
+          AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.chat_jid = chats.jid);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "unread counts and last-read markers",
+    up: (db) => {
+      db.exec(`ALTER TABLE chats ADD COLUMN unread_count INTEGER NOT NULL DEFAULT 0;`);
+      // Messages after this time are unread; NULL means none have been read
+      db.exec(`ALTER TABLE chats ADD COLUMN last_read_at TEXT;`);
+      db.exec(`ALTER TABLE chats ADD COLUMN muted_until TEXT;`);
+      // Nothing tracked reads until now; start with everything read
+      db.exec(`
+        UPDATE chats
+        SET last_read_at = (SELECT MAX(m.timestamp) FROM messages m WHERE m.chat_jid = chats.jid);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "stable message key for the full-text index",
+    // Rebuilds the messages table and the search index
+    destructive: true,
+    up: (db) => {
+      // messages had only a composite primary key, so its implicit rowid,
+      // which messages_fts was keyed on, could be renumbered by VACUUM.
+      // An INTEGER PRIMARY KEY column is kept as-is.
+      db.exec(`DROP TRIGGER IF EXISTS messages_fts_ai;`);
+      db.exec(`DROP TRIGGER IF EXISTS messages_fts_ad;`);
+      db.exec(`DROP TRIGGER IF EXISTS messages_fts_au;`);
+      db.exec(`DROP TABLE IF EXISTS messages_fts;`);
+      db.exec(`
+        CREATE TABLE messages_new (
+            seq INTEGER PRIMARY KEY, -- key of the message in messages_fts
+            id TEXT,
+            chat_jid TEXT,
+            sender TEXT,      -- JID of the sender (can be group participant or contact)
+            content TEXT,
+            timestamp TEXT, -- Store dates as ISO strings
+            is_from_me INTEGER, -- Store booleans as 0 or 1
+            edited_at TEXT,
+            deleted_at TEXT,
+            status INTEGER,
+            UNIQUE (id, chat_jid),
+            FOREIGN KEY (chat_jid) REFERENCES chats(jid) ON DELETE CASCADE
+        );
+      `);
+      db.exec(`
+        INSERT INTO messages_new (seq, id, chat_jid, sender, content, timestamp, is_from_me, edited_at, deleted_at, status)
+        SELECT rowid, id, chat_jid, sender, content, timestamp, is_from_me, edited_at, deleted_at, status
+        FROM messages;
+      `);
+      db.exec(`DROP TABLE messages;`);
+      db.exec(`ALTER TABLE messages_new RENAME TO messages;`);
+      db.exec(`CREATE INDEX idx_messages_timestamp ON messages (timestamp);`);
+      db.exec(`CREATE INDEX idx_messages_chat_jid ON messages (chat_jid);`);
+      db.exec(`CREATE INDEX idx_messages_sender ON messages (sender);`);
+      db.exec(`
+        CREATE VIRTUAL TABLE messages_fts USING fts5(
+            content,
+            content = 'messages',
+            content_rowid = 'seq',
+            tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+      db.exec(`
+        CREATE TRIGGER messages_fts_ai AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts (rowid, content) VALUES (new.seq, new.content);
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER messages_fts_ad AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.seq, old.content);
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER messages_fts_au AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.seq, old.content);
+            INSERT INTO messages_fts (rowid, content) VALUES (new.seq, new.content);
+        END;
+      `);
+      db.exec(`INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (max, m) => Math.max(max, m.version),
+  0,
+);
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: { version: number; name: string; destructive: boolean }[];
+}
+
+export function getUserVersion(db: DatabaseSync): number {
+  const row = db.prepare("PRAGMA user_version").get() as
+    | { user_version: number }
+    | undefined;
+  return row?.user_version ?? 0;
+}
+
+export function getSchemaStatus(db: DatabaseSync): SchemaStatus {
+  const currentVersion = getUserVersion(db);
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    pending: MIGRATIONS.filter((m) => m.version > currentVersion)
+      .sort((a, b) => a.version - b.version)
+      .map((m) => ({
+        version: m.version,
+        name: m.name,
+        destructive: Boolean(m.destructive),
+      })),
+  };
+}
+
+// True when no ordinary table has a row; FTS shadow tables don't count
+function hasRows(db: DatabaseSync): boolean {
+  const tables = db.prepare("PRAGMA main.table_list").all() as { name: string; type: string }[];
+  return tables.some(
+    (table) =>
+      table.type === "table" &&
+      !table.name.startsWith("sqlite_") &&
+      db.prepare(`SELECT 1 FROM "${table.name.replace(/"/g, '""')}" LIMIT 1`).get() !== undefined,
+  );
+}
+
+/**
+ * Applies every pending migration, each in its own transaction. `backup` is
+ * invoked (outside any transaction) before a destructive migration runs,
+ * unless the database held no data to begin with (a fresh install).
+ * Returns the versions that were applied.
+ */
+export function runMigrations(
+  db: DatabaseSync,
+  backup: (fromVersion: number, migration: Migration) => void,
+): number[] {
+  const currentVersion = getUserVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this build supports (${LATEST_SCHEMA_VERSION}). Upgrade the server before using this database.`,
+    );
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion).sort(
+    (a, b) => a.version - b.version,
+  );
+  const applied: number[] = [];
+  const needsBackup = hasRows(db);
+  if (pending.length === 0) return applied;
+
+  // Rebuilding a table means dropping the old one, which would cascade to
+  // every row referencing it. The pragma is a no-op inside a transaction,
+  // so switch it off around the whole run.
+  const foreignKeys = (db.prepare("PRAGMA foreign_keys").get() as { foreign_keys: number })
+    .foreign_keys;
+  db.exec("PRAGMA foreign_keys = OFF");
+  try {
+    for (const migration of pending) {
+      if (migration.destructive && needsBackup) {
+        backup(getUserVersion(db), migration);
+      }
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        migration.up(db);
+        // PRAGMA does not accept bound parameters; version is a trusted integer
+        db.exec(`PRAGMA user_version = ${Math.trunc(migration.version)}`);
+        db.exec("COMMIT");
+      } catch (error: any) {
+        db.exec("ROLLBACK");
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${error.message}`,
+        );
+      }
+      applied.push(migration.version);
+    }
+  } finally {
+    db.exec(`PRAGMA foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+
+  return applied;
+}
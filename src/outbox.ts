@@ -0,0 +1,309 @@
+import P from "pino";
+
+import {
+  type OutboxItem,
+  type OutboxPayload,
+  enqueueOutboxItem,
+  getOutboxItem,
+  getNextDueOutboxItem,
+  getNextOutboxAttemptTime,
+  updateOutboxItem,
+  requeueInterruptedOutboxItems,
+} from "./database.ts";
+import {
+  sendWhatsAppMessage,
+  sendWhatsAppMedia,
+  replyToWhatsAppMessage,
+  sendWhatsAppReaction,
+  sendWhatsAppPoll,
+  sendWhatsAppLocation,
+  sendWhatsAppContacts,
+  type WhatsAppConnection,
+  type WhatsAppSocket,
+} from "./whatsapp.ts";
+import { checkPolicy, formatPolicyDenial } from "./policy.ts";
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS || 8);
+// Global limit across all chats, spread evenly (20/min = one send every 3s)
+const SENDS_PER_MINUTE = Math.max(Number(process.env.OUTBOX_RATE_PER_MINUTE || 20), 1);
+const MIN_SEND_INTERVAL_MS = 60_000 / SENDS_PER_MINUTE;
+// Retry backoff: 5s, 10s, 20s ... capped at 10 minutes, with up to 20% jitter
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+// Upper bound on how long the worker sleeps when idle or disconnected
+const IDLE_POLL_MS = 60_000;
+
+const SETTLED_STATUSES = new Set(["sent", "failed", "cancelled"]);
+
+export interface Outbox {
+  /** Persists a message for sending and wakes the worker. */
+  enqueue(chatJid: string, payload: OutboxPayload): OutboxItem;
+  /**
+   * Resolves once the item is sent, failed or cancelled, or with its current
+   * state after `timeoutMs`. Null if the item doesn't exist.
+   */
+  waitForSettled(id: number, timeoutMs: number): Promise<OutboxItem | null>;
+  /** Cancels a queued item; returns null if it is no longer queued. */
+  cancel(id: number): OutboxItem | null;
+  stop(): void;
+}
+
+// Failures that retrying can't fix: missing files and requests WhatsApp rejects
+function isPermanentError(error: any): boolean {
+  if (["ENOENT", "EISDIR", "EACCES"].includes(error?.code)) return true;
+  const statusCode = error?.output?.statusCode;
+  return statusCode === 400 || statusCode === 403 || statusCode === 404;
+}
+
+function retryDelayMs(attempts: number): number {
+  const base = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS,
+  );
+  return Math.round(base * (1 + Math.random() * 0.2));
+}
+
+function deliver(logger: P.Logger, sock: WhatsAppSocket, item: OutboxItem) {
+  const { payload, chat_jid } = item;
+  switch (payload.kind) {
+    case "text":
+      return sendWhatsAppMessage(logger, sock, chat_jid, payload.text);
+    case "media":
+      return sendWhatsAppMedia(
+        logger,
+        sock,
+        chat_jid,
+        payload.media_type,
+        payload.media_path,
+        payload.caption,
+        payload.file_name,
+      );
+    case "reply":
+      return replyToWhatsAppMessage(
+        logger,
+        sock,
+        chat_jid,
+        payload.quoted_message_id,
+        payload.quoted_content,
+        payload.quoted_sender,
+        payload.quoted_is_from_me,
+        payload.text,
+      );
+    case "reaction":
+      return sendWhatsAppReaction(
+        logger,
+        sock,
+        chat_jid,
+        payload.message_id,
+        payload.message_sender,
+        payload.message_is_from_me,
+        payload.emoji,
+      );
+    case "poll":
+      return sendWhatsAppPoll(
+        logger,
+        sock,
+        chat_jid,
+        payload.question,
+        payload.options,
+        payload.selectable_count,
+      );
+    case "location":
+      return sendWhatsAppLocation(
+        logger,
+        sock,
+        chat_jid,
+        payload.latitude,
+        payload.longitude,
+        payload.name,
+        payload.address,
+      );
+    case "contacts":
+      return sendWhatsAppContacts(logger, sock, chat_jid, payload.contacts);
+  }
+}
+
+/**
+ * Starts the worker that drains the SQLite-backed outbox. Items are sent one
+ * at a time, oldest first within each chat, no faster than
+ * OUTBOX_RATE_PER_MINUTE. Failed sends are retried with exponential backoff up
+ * to OUTBOX_MAX_ATTEMPTS; the queue survives restarts and waits out
+ * disconnects.
+ */
+export function startOutbox(
+  connection: WhatsAppConnection,
+  logger: P.Logger,
+): Outbox {
+  const requeued = requeueInterruptedOutboxItems();
+  if (requeued > 0) {
+    logger.warn(
+      { requeued },
+      "Re-queued outbox items interrupted mid-send; they may be delivered twice",
+    );
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  let draining = false;
+  let stopped = false;
+  let lastSendAt = 0;
+  const settledWaiters = new Map<number, Set<(item: OutboxItem) => void>>();
+
+  const settle = (item: OutboxItem | null) => {
+    if (!item || !SETTLED_STATUSES.has(item.status)) return;
+    const waiters = settledWaiters.get(item.id);
+    settledWaiters.delete(item.id);
+    for (const resolve of waiters ?? []) resolve(item);
+  };
+
+  const schedule = (delayMs: number) => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void drain();
+    }, Math.max(delayMs, 0));
+  };
+
+  const attempt = async (sock: WhatsAppSocket, item: OutboxItem) => {
+    const claimed = updateOutboxItem(item.id, ["queued"], {
+      status: "sending",
+      attempts: item.attempts + 1,
+    });
+    if (!claimed) return; // cancelled in the meantime
+
+    // Re-checked at send time: scheduled and retried items can outlive a policy change
+    const decision = checkPolicy(
+      claimed.payload.kind === "reaction" ? "react" : "send",
+      claimed.chat_jid,
+    );
+    if (!decision.allowed) {
+      settle(
+        updateOutboxItem(claimed.id, ["sending"], {
+          status: "failed",
+          last_error: formatPolicyDenial(decision),
+        }),
+      );
+      logger.warn({ outboxId: claimed.id, reason: decision.reason }, "Outbox item blocked by policy");
+      return;
+    }
+    lastSendAt = Date.now();
+
+    try {
+      const result = await deliver(logger, sock, claimed);
+      settle(
+        updateOutboxItem(claimed.id, ["sending"], {
+          status: "sent",
+          sent_message_id: result?.key?.id ?? null,
+          last_error: null,
+        }),
+      );
+      logger.info({ outboxId: claimed.id, msgId: result?.key?.id }, "Outbox item sent");
+    } catch (error: any) {
+      const message = error?.message ?? String(error);
+      if (isPermanentError(error) || claimed.attempts >= claimed.max_attempts) {
+        settle(
+          updateOutboxItem(claimed.id, ["sending"], {
+            status: "failed",
+            last_error: message,
+          }),
+        );
+        logger.error(
+          { outboxId: claimed.id, attempts: claimed.attempts, err: error },
+          "Outbox item failed permanently",
+        );
+        return;
+      }
+      const delay = retryDelayMs(claimed.attempts);
+      updateOutboxItem(claimed.id, ["sending"], {
+        status: "queued",
+        next_attempt_at: new Date(Date.now() + delay),
+        last_error: message,
+      });
+      logger.warn(
+        { outboxId: claimed.id, attempts: claimed.attempts, delay, err: error },
+        "Outbox send failed; will retry",
+      );
+    }
+  };
+
+  const drain = async () => {
+    if (draining || stopped) return;
+    draining = true;
+    try {
+      while (!stopped) {
+        const item = getNextDueOutboxItem();
+        if (!item) {
+          const next = getNextOutboxAttemptTime();
+          schedule(
+            next ? Math.min(next.getTime() - Date.now(), IDLE_POLL_MS) : IDLE_POLL_MS,
+          );
+          return;
+        }
+
+        const sock = await connection.waitForSocket(IDLE_POLL_MS);
+        if (!sock) {
+          logger.info("Outbox waiting for the WhatsApp connection to open");
+          schedule(IDLE_POLL_MS);
+          return;
+        }
+
+        const wait = lastSendAt + MIN_SEND_INTERVAL_MS - Date.now();
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+          continue; // re-pick: the item may have been cancelled while waiting
+        }
+
+        await attempt(sock, item);
+      }
+    } catch (error) {
+      logger.error({ err: error }, "Outbox worker error");
+      schedule(IDLE_POLL_MS);
+    } finally {
+      draining = false;
+    }
+  };
+
+  schedule(0);
+
+  return {
+    enqueue: (chatJid, payload) => {
+      const item = enqueueOutboxItem(chatJid, payload, MAX_ATTEMPTS);
+      logger.info({ outboxId: item.id, chatJid, kind: payload.kind }, "Queued outbound message");
+      if (!draining) schedule(0);
+      return item;
+    },
+    waitForSettled: (id, timeoutMs) => {
+      const current = getOutboxItem(id);
+      if (!current || SETTLED_STATUSES.has(current.status)) {
+        return Promise.resolve(current);
+      }
+      return new Promise((resolve) => {
+        const waiters = settledWaiters.get(id) ?? new Set();
+        settledWaiters.set(id, waiters);
+        const timeout = setTimeout(() => {
+          waiters.delete(onSettled);
+          if (!waiters.size && settledWaiters.get(id) === waiters) settledWaiters.delete(id);
+          resolve(getOutboxItem(id));
+        }, timeoutMs);
+        const onSettled = (item: OutboxItem) => {
+          clearTimeout(timeout);
+          resolve(item);
+        };
+        waiters.add(onSettled);
+      });
+    },
+    cancel: (id) => {
+      const cancelled = updateOutboxItem(id, ["queued"], { status: "cancelled" });
+      if (cancelled) {
+        logger.info({ outboxId: id }, "Outbox item cancelled");
+        settle(cancelled);
+      }
+      return cancelled;
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
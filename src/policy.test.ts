@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { matchesPolicyPattern } from "./policy.ts";
+
+const GROUP = "120363000000000000@g.us";
+const PERSON = "14155550123@s.whatsapp.net";
+
+describe("matchesPolicyPattern", () => {
+  it("matches everything with *", () => {
+    assert.ok(matchesPolicyPattern("*", GROUP));
+    assert.ok(matchesPolicyPattern(" * ", PERSON));
+  });
+
+  it("matches chat types", () => {
+    assert.ok(matchesPolicyPattern("groups", GROUP));
+    assert.ok(!matchesPolicyPattern("groups", PERSON));
+    assert.ok(matchesPolicyPattern("individuals", PERSON));
+    assert.ok(matchesPolicyPattern("individuals", "123456789@lid"));
+    assert.ok(!matchesPolicyPattern("individuals", GROUP));
+  });
+
+  it("matches a phone number however it is written", () => {
+    assert.ok(matchesPolicyPattern("+1 (415) 555-0123", PERSON));
+    assert.ok(matchesPolicyPattern("14155550123", PERSON));
+    assert.ok(!matchesPolicyPattern("+1 415 555 0124", PERSON));
+    assert.ok(!matchesPolicyPattern("+1 415 555 0123", "14155550123@lid"));
+  });
+
+  it("treats other patterns as case-insensitive JID globs", () => {
+    assert.ok(matchesPolicyPattern("*@g.us", GROUP));
+    assert.ok(!matchesPolicyPattern("*@g.us", PERSON));
+    assert.ok(matchesPolicyPattern("1415*@S.WHATSAPP.NET", PERSON));
+    assert.ok(!matchesPolicyPattern("1415*", `x${PERSON}`));
+    assert.ok(matchesPolicyPattern(GROUP, GROUP));
+  });
+
+  it("matches glob text literally apart from *", () => {
+    assert.ok(!matchesPolicyPattern("14155550123@s.whatsapp.ne.", PERSON));
+    assert.ok(!matchesPolicyPattern("1415(5)*", "14155550123@s.whatsapp.net"));
+    assert.ok(matchesPolicyPattern("a+b*", "a+b@lid"));
+    assert.ok(!matchesPolicyPattern("a+b*", "aab@lid"));
+  });
+});
@@ -0,0 +1,248 @@
+import path from "node:path";
+import fs from "node:fs";
+
+import {
+  type PolicyAction,
+  type PolicyEffect,
+  type PolicyRule,
+  POLICY_ACTIONS,
+  getPolicyRules,
+  getPolicyDefaults,
+  getJidAliases,
+  pageFiltered,
+} from "./database.ts";
+
+export const POLICY_FILE_PATH =
+  process.env.WA_POLICY_FILE || path.join(import.meta.dirname, "..", "policy.json");
+
+/**
+ * Policy file format (all keys optional):
+ * {
+ *   "defaults": { "send": "deny", "react": "deny", "read": "allow" },
+ *   "rules": [
+ *     { "action": "send", "effect": "allow", "match": "groups" },
+ *     { "action": ["send", "react"], "effect": "allow", "match": "+14155550123" },
+ *     { "action": "*", "effect": "deny", "match": "120363000000000000@g.us" }
+ *   ]
+ * }
+ */
+type PolicyFile = {
+  defaults?: Partial<Record<PolicyAction, PolicyEffect>>;
+  rules?: {
+    action: PolicyAction | "*" | (PolicyAction | "*")[];
+    effect: PolicyEffect;
+    match: string;
+    note?: string;
+  }[];
+};
+
+export interface PolicyDecision {
+  allowed: boolean;
+  action: PolicyAction;
+  jid: string;
+  /** The rule that decided, or null when the default applied. */
+  rule: PolicyRule | null;
+  reason: string;
+}
+
+type LoadedPolicyFile = {
+  mtimeMs: number;
+  rules: PolicyRule[];
+  defaults: Partial<Record<PolicyAction, PolicyEffect>>;
+  error: string | null;
+};
+let policyFileCache: LoadedPolicyFile | null = null;
+
+function isEffect(value: unknown): value is PolicyEffect {
+  return value === "allow" || value === "deny";
+}
+
+function validatePolicyFile(raw: PolicyFile): Omit<LoadedPolicyFile, "mtimeMs" | "error"> {
+  const defaults: Partial<Record<PolicyAction, PolicyEffect>> = {};
+  for (const [action, effect] of Object.entries(raw.defaults ?? {})) {
+    if (!(POLICY_ACTIONS as readonly string[]).includes(action) || !isEffect(effect)) {
+      throw new Error(`invalid default "${action}": "${effect}"`);
+    }
+    defaults[action as PolicyAction] = effect;
+  }
+
+  const rules: PolicyRule[] = [];
+  for (const [index, rule] of (raw.rules ?? []).entries()) {
+    const actions = Array.isArray(rule.action) ? rule.action : [rule.action];
+    if (!isEffect(rule.effect) || typeof rule.match !== "string" || !rule.match.trim()) {
+      throw new Error(`rule ${index + 1} needs "effect" (allow|deny) and a non-empty "match"`);
+    }
+    for (const action of actions) {
+      if (action !== "*" && !(POLICY_ACTIONS as readonly string[]).includes(action)) {
+        throw new Error(`rule ${index + 1} has unknown action "${action}"`);
+      }
+      rules.push({
+        id: null,
+        action,
+        effect: rule.effect,
+        pattern: rule.match.trim(),
+        note: rule.note ?? null,
+      });
+    }
+  }
+  return { rules, defaults };
+}
+
+// Re-read whenever the file changes, so edits apply without a restart
+function loadPolicyFile(): LoadedPolicyFile | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(POLICY_FILE_PATH).mtimeMs;
+  } catch {
+    policyFileCache = null;
+    return null;
+  }
+  if (policyFileCache?.mtimeMs === mtimeMs) {
+    return policyFileCache;
+  }
+  try {
+    const raw = JSON.parse(fs.readFileSync(POLICY_FILE_PATH, "utf8")) as PolicyFile;
+    policyFileCache = { mtimeMs, error: null, ...validatePolicyFile(raw) };
+  } catch (error: any) {
+    console.error(`Invalid policy file ${POLICY_FILE_PATH}:`, error);
+    policyFileCache = { mtimeMs, rules: [], defaults: {}, error: error.message };
+  }
+  return policyFileCache;
+}
+
+// Same test as Baileys' isJidGroup, without loading Baileys
+function isGroupJid(jid: string): boolean {
+  return jid.endsWith("@g.us");
+}
+
+/**
+ * Matches a JID against a rule pattern:
+ * - `*` matches everything; `groups` / `individuals` match by chat type
+ * - a bare phone number (`+1 415 555 0123`) matches that number's JID
+ * - anything else is a JID glob where `*` matches any run of characters,
+ *   e.g. `*@g.us` or `1415*@s.whatsapp.net`
+ */
+export function matchesPolicyPattern(pattern: string, jid: string): boolean {
+  const trimmed = pattern.trim();
+  if (trimmed === "*") return true;
+  if (trimmed === "groups") return isGroupJid(jid);
+  if (trimmed === "individuals") return !isGroupJid(jid);
+  if (/^\+?[\d\s\-()]+$/.test(trimmed)) {
+    return jid === `${trimmed.replace(/\D/g, "")}@s.whatsapp.net`;
+  }
+  const regex = new RegExp(
+    `^${trimmed.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`,
+    "i",
+  );
+  return regex.test(jid);
+}
+
+function describeRule(rule: PolicyRule): string {
+  const source = rule.id === null ? "policy file" : `database rule #${rule.id}`;
+  return `${rule.effect} ${rule.action} "${rule.pattern}" (${source})`;
+}
+
+/** Rules and defaults from the policy file and the database combined. */
+export function getEffectivePolicy(): {
+  rules: PolicyRule[];
+  defaults: Record<PolicyAction, PolicyEffect>;
+  fileError: string | null;
+} {
+  const file = loadPolicyFile();
+  const dbDefaults = getPolicyDefaults();
+  const defaults = Object.fromEntries(
+    POLICY_ACTIONS.map((action) => [
+      action,
+      dbDefaults[action] ?? file?.defaults[action] ?? "allow",
+    ]),
+  ) as Record<PolicyAction, PolicyEffect>;
+  return {
+    rules: [...(file?.rules ?? []), ...getPolicyRules()],
+    defaults,
+    fileError: file?.error ?? null,
+  };
+}
+
+function decide(
+  policy: ReturnType<typeof getEffectivePolicy>,
+  action: PolicyAction,
+  jid: string,
+): PolicyDecision {
+  const { rules, defaults, fileError } = policy;
+  if (fileError) {
+    return {
+      allowed: false,
+      action,
+      jid,
+      rule: null,
+      reason: `the policy file ${POLICY_FILE_PATH} is invalid (${fileError}); all actions are denied until it is fixed`,
+    };
+  }
+
+  // A contact's LID and phone-number JID are the same chat, so a rule naming
+  // either one applies to both
+  const jids = !rules.length || isGroupJid(jid) ? [jid] : getJidAliases(jid);
+  const matching = rules.filter(
+    (rule) =>
+      (rule.action === "*" || rule.action === action) &&
+      jids.some((alias) => matchesPolicyPattern(rule.pattern, alias)),
+  );
+  const deny = matching.find((rule) => rule.effect === "deny");
+  if (deny) {
+    return { allowed: false, action, jid, rule: deny, reason: `denied by rule: ${describeRule(deny)}` };
+  }
+  const allow = matching.find((rule) => rule.effect === "allow");
+  if (allow) {
+    return { allowed: true, action, jid, rule: allow, reason: `allowed by rule: ${describeRule(allow)}` };
+  }
+  return {
+    allowed: defaults[action] === "allow",
+    action,
+    jid,
+    rule: null,
+    reason: `no rule matches; the default for "${action}" is ${defaults[action]}`,
+  };
+}
+
+/**
+ * Decides whether `action` is permitted on the chat `jid`. A matching deny
+ * rule always wins over a matching allow rule; with no match the action's
+ * default applies (allow unless configured otherwise). An unreadable policy
+ * file denies everything until it is fixed.
+ */
+export function checkPolicy(action: PolicyAction, jid: string): PolicyDecision {
+  return decide(getEffectivePolicy(), action, jid);
+}
+
+/**
+ * Page `page` of the items whose chat permits `action`; items without a chat
+ * (`jidOf` returns null) are always kept. When no rule concerns the action,
+ * the query is paged directly.
+ */
+export function pageByPolicy<T>(
+  action: PolicyAction,
+  fetch: (limit: number, offset: number) => T[],
+  jidOf: (item: T) => string | null,
+  limit: number,
+  page: number = 0,
+): T[] {
+  const policy = getEffectivePolicy();
+  if (!policy.fileError && !policy.rules.some((rule) => rule.action === "*" || rule.action === action)) {
+    if (policy.defaults[action] === "allow") return fetch(limit, page * limit);
+    return pageFiltered(fetch, (item) => jidOf(item) === null, limit, page);
+  }
+  return pageFiltered(
+    fetch,
+    (item) => {
+      const jid = jidOf(item);
+      return jid === null || decide(policy, action, jid).allowed;
+    },
+    limit,
+    page,
+  );
+}
+
+/** Human-readable denial used by tools and the outbox. */
+export function formatPolicyDenial(decision: PolicyDecision): string {
+  return `Policy does not allow "${decision.action}" for ${decision.jid}: ${decision.reason}.`;
+}
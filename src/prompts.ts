@@ -0,0 +1,188 @@
+import {
+  type Message,
+  getChat,
+  getContactNames,
+  getMessages,
+  getRecentMessages,
+  getUnreadChats,
+  getUnreadMessages,
+  pageFiltered,
+} from "./database.ts";
+import { fallbackSenderName, localDate, localTime } from "./export.ts";
+
+// Messages pulled into a prompt per chat, and in total for cross-chat prompts
+const CHAT_MESSAGE_LIMIT = 300;
+const REPLY_CONTEXT_MESSAGES = 30;
+const GROUP_MESSAGE_LIMIT = 50;
+const MAX_CATCH_UP_GROUPS = 20;
+const ACTION_ITEM_MESSAGE_LIMIT = 500;
+
+export type PromptText = {
+  /** Shown by clients next to the prompt. */
+  description: string;
+  text: string;
+};
+
+export type Self = { name: string | null; jid: string | null };
+
+const localStamp = (date: Date) => `${localDate(date)} ${localTime(date)}`;
+
+function chatName(jid: string): string {
+  return getChat(jid, false)?.name ?? fallbackSenderName(jid);
+}
+
+/**
+ * One line per message, oldest first: "[2024-01-31 09:15] Alice: text".
+ * Senders are named after the contacts table; our own messages are "You".
+ */
+function formatTranscript(messages: Message[]): string {
+  const names = getContactNames(
+    [...new Set(messages.map((message) => message.sender).filter((jid): jid is string => !!jid))],
+  );
+  return messages
+    .map((message) => {
+      const sender = message.sender ?? (message.is_from_me ? null : message.chat_jid);
+      const name = message.is_from_me
+        ? "You"
+        : sender
+          ? (names.get(sender) ?? fallbackSenderName(sender))
+          : "Unknown";
+      const text = message.deleted_at ? "[deleted]" : `${message.content}${message.edited_at ? " (edited)" : ""}`;
+      return `[${localStamp(message.timestamp)}] ${name}: ${text}`;
+    })
+    .join("\n");
+}
+
+// Newest-first rows capped at `limit`, as a transcript with a note when cut
+function transcriptOf(newestFirst: Message[], limit: number): string {
+  const note = newestFirst.length >= limit ? `(Only the latest ${limit} messages are included.)\n` : "";
+  return note + formatTranscript([...newestFirst].reverse());
+}
+
+// "I am Sam (+14155550123). ", or nothing while logged out
+function describeSelf(self: Self): string {
+  const number = self.jid ? fallbackSenderName(self.jid) : null;
+  if (self.name && number) return `I am ${self.name} (${number}). `;
+  if (self.name || number) return `I am ${self.name ?? number}. `;
+  return "";
+}
+
+/** Asks for a summary of one chat since `since`. */
+export function summarizeChatPrompt(chatJid: string, since: Date): PromptText {
+  const name = chatName(chatJid);
+  const messages = getRecentMessages(chatJid, since, CHAT_MESSAGE_LIMIT);
+  const intro = `Summarize my WhatsApp chat "${name}" since ${localStamp(since)}.`;
+  if (!messages.length) {
+    return {
+      description: `Summary of ${name}`,
+      text: `${intro} There are no messages in that period; say so.`,
+    };
+  }
+  return {
+    description: `Summary of ${name}: ${messages.length} messages`,
+    text:
+      `${intro} Cover the main topics, decisions, open questions and anything waiting on me. ` +
+      `Refer to people by name and keep it short.\n\n${transcriptOf(messages, CHAT_MESSAGE_LIMIT)}`,
+  };
+}
+
+/** Asks for a reply to the last message in a chat, with the recent conversation as context. */
+export function draftReplyPrompt(chatJid: string, instructions: string | null): PromptText {
+  const name = chatName(chatJid);
+  const messages = getMessages(chatJid, REPLY_CONTEXT_MESSAGES, 0);
+  if (!messages.length) {
+    return {
+      description: `Reply in ${name}`,
+      text: `My WhatsApp chat "${name}" has no messages to reply to; say so.`,
+    };
+  }
+  const lastIsMine = messages[0].is_from_me;
+  return {
+    description: `Reply in ${name}`,
+    text:
+      `Draft ${lastIsMine ? "a follow-up to my last message" : "a reply to the last message"} in my WhatsApp chat "${name}". ` +
+      "Match the language and tone of my earlier messages, and answer in the message text only. Don't send it." +
+      (instructions ? `\n\nWhat I want to say: ${instructions}` : "") +
+      `\n\nRecent messages:\n${transcriptOf(messages, REPLY_CONTEXT_MESSAGES)}`,
+  };
+}
+
+/**
+ * Asks for a per-group digest of the unread messages in groups that aren't
+ * muted, optionally only those since `since`.
+ */
+export function catchUpGroupsPrompt(since: Date | null, canRead: (jid: string) => boolean): PromptText {
+  // One past the cap, to tell whether groups were left out
+  const groups = pageFiltered(
+    (limit, offset) => getUnreadChats(limit, false, offset),
+    (chat) => chat.jid.endsWith("@g.us") && canRead(chat.jid),
+    MAX_CATCH_UP_GROUPS + 1,
+  );
+  const period = since ? ` since ${localStamp(since)}` : "";
+  const sections = groups.slice(0, MAX_CATCH_UP_GROUPS).flatMap((group) => {
+    const messages = getUnreadMessages(group.jid, GROUP_MESSAGE_LIMIT).filter(
+      (message) => !since || message.timestamp >= since,
+    );
+    if (!messages.length) return [];
+    const title = group.name ?? fallbackSenderName(group.jid);
+    return [`## ${title} (${group.new_messages} unread)\n${transcriptOf(messages, GROUP_MESSAGE_LIMIT)}`];
+  });
+  if (!sections.length) {
+    return {
+      description: "Catch up on groups: nothing new",
+      text: `None of my WhatsApp groups has unread messages${period}; tell me so.`,
+    };
+  }
+  const skipped = groups.length > MAX_CATCH_UP_GROUPS;
+  return {
+    description: `Catch up on ${sections.length} groups`,
+    text:
+      `Catch me up on my WhatsApp groups. These are the unread messages${period} in each group that isn't muted. ` +
+      "For each group, give a few bullet points on what happened, and call out questions to me, mentions of me, decisions and deadlines." +
+      (skipped ? " Less recently active groups are left out." : "") +
+      `\n\n${sections.join("\n\n")}`,
+  };
+}
+
+/** Asks for the tasks and requests addressed to us in recent messages. */
+export function actionItemsPrompt(
+  since: Date,
+  chatJid: string | null,
+  self: Self,
+  canRead: (jid: string) => boolean,
+): PromptText {
+  const messages = pageFiltered(
+    (limit, offset) => getRecentMessages(chatJid, since, limit, offset),
+    (message) => canRead(message.chat_jid),
+    ACTION_ITEM_MESSAGE_LIMIT,
+  );
+  const scope = chatJid ? `my WhatsApp chat "${chatName(chatJid)}"` : "my WhatsApp chats";
+  if (!messages.length) {
+    return {
+      description: "Action items: no messages",
+      text: `There are no messages in ${scope} since ${localStamp(since)}; tell me there's nothing to do.`,
+    };
+  }
+
+  // Chats in order of their latest message, each as its own transcript
+  const byChat = new Map<string, Message[]>();
+  for (const message of messages) {
+    byChat.set(message.chat_jid, [...(byChat.get(message.chat_jid) ?? []), message]);
+  }
+  const sections = [...byChat].map(
+    ([jid, chatMessages]) =>
+      `## ${chatMessages[0].chat_name ?? fallbackSenderName(jid)}\n${formatTranscript(chatMessages.reverse())}`,
+  );
+  const note =
+    messages.length >= ACTION_ITEM_MESSAGE_LIMIT ? ` (only the latest ${ACTION_ITEM_MESSAGE_LIMIT} messages)` : "";
+  return {
+    description: `Action items from ${byChat.size} chats`,
+    text:
+      `Find the action items assigned to me in ${scope} since ${localStamp(since)}${note}: ` +
+      "requests and questions waiting for my answer, tasks I agreed to do, and deadlines. " +
+      describeSelf(self) +
+      'Messages from "You" are mine; leave out anything I already answered or did. ' +
+      "List each item with the chat, who asked, what is needed and any due date. Say so if there are none." +
+      `\n\n${sections.join("\n\n")}`,
+  };
+}
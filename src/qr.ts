@@ -0,0 +1,33 @@
+import QRCode from "qrcode";
+import path from "node:path";
+import fs from "node:fs";
+
+// Written while a QR is pending and removed once pairing completes, since the
+// image is enough to link a device to the account.
+export const LOGIN_QR_PNG_PATH = path.join(
+  import.meta.dirname,
+  "..",
+  "data",
+  "login-qr.png",
+);
+
+/** Renders the QR as block characters for a terminal. */
+export async function renderQrForTerminal(qr: string): Promise<string> {
+  return QRCode.toString(qr, { type: "terminal", small: true });
+}
+
+/** Renders the QR as a PNG, returned base64-encoded for MCP image content. */
+export async function renderQrPngBase64(qr: string): Promise<string> {
+  const buffer = await QRCode.toBuffer(qr, { type: "png", margin: 2, scale: 8 });
+  return buffer.toString("base64");
+}
+
+export async function writeQrPng(qr: string): Promise<string> {
+  fs.mkdirSync(path.dirname(LOGIN_QR_PNG_PATH), { recursive: true });
+  await QRCode.toFile(LOGIN_QR_PNG_PATH, qr, { type: "png", margin: 2, scale: 8 });
+  return LOGIN_QR_PNG_PATH;
+}
+
+export function removeQrPng(): void {
+  fs.rmSync(LOGIN_QR_PNG_PATH, { force: true });
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseRecurrence, nextOccurrence } from "./scheduler.ts";
+
+// Occurrences are local calendar dates; pin a zone with DST changes
+process.env.TZ = "Europe/Berlin";
+
+// The first `n` occurrences of `rule` from `start`, fewer if it ends
+function take(rule: string | null, start: Date, n: number): Date[] {
+  const dates: Date[] = [];
+  let after = new Date(start.getTime() - 1);
+  while (dates.length < n) {
+    const next = nextOccurrence(rule, start, after);
+    if (!next) break;
+    dates.push(next);
+    after = next;
+  }
+  return dates;
+}
+
+describe("parseRecurrence", () => {
+  it("parses FREQ, INTERVAL, BYDAY and COUNT", () => {
+    assert.deepEqual(parseRecurrence("RRULE:FREQ=weekly;INTERVAL=2;BYDAY=MO,WE;COUNT=10"), {
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [1, 3],
+      count: 10,
+      until: null,
+    });
+  });
+
+  it("reads a date-only UNTIL as the end of that day", () => {
+    const { until } = parseRecurrence("FREQ=DAILY;UNTIL=20240315");
+    assert.deepEqual(until, new Date(2024, 2, 15, 23, 59, 59, 999));
+  });
+
+  it("rejects rules it can't honour", () => {
+    assert.throws(() => parseRecurrence("INTERVAL=2"), /must include FREQ/);
+    assert.throws(() => parseRecurrence("FREQ=YEARLY"), /Unsupported FREQ/);
+    assert.throws(() => parseRecurrence("FREQ=DAILY;BYMONTHDAY=1"), /Unsupported recurrence rule part/);
+    assert.throws(() => parseRecurrence("FREQ=MONTHLY;BYDAY=MO"), /BYDAY is only supported/);
+    assert.throws(() => parseRecurrence("FREQ=DAILY;COUNT=2;UNTIL=20240101"), /either COUNT or UNTIL/);
+    assert.throws(() => parseRecurrence("FREQ=DAILY;COUNT=0"), /COUNT must be a positive integer/);
+    assert.throws(() => parseRecurrence("FREQ=WEEKLY;BYDAY=1MO"), /Unsupported BYDAY value/);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("returns the start once for a one-off message", () => {
+    const start = new Date(2024, 0, 1, 9, 0);
+    assert.deepEqual(take(null, start, 3), [start]);
+  });
+
+  it("keeps the wall-clock time of daily rules across DST changes", () => {
+    const dates = take("FREQ=DAILY", new Date(2024, 2, 30, 9, 0), 3);
+    assert.deepEqual(
+      dates.map((date) => date.toISOString()),
+      ["2024-03-30T08:00:00.000Z", "2024-03-31T07:00:00.000Z", "2024-04-01T07:00:00.000Z"],
+    );
+    assert.ok(dates.every((date) => date.getHours() === 9));
+  });
+
+  it("steps hourly rules in real time across DST changes", () => {
+    const dates = take("FREQ=HOURLY", new Date("2024-03-31T00:30:00Z"), 3);
+    assert.deepEqual(
+      dates.map((date) => date.getTime() - dates[0].getTime()),
+      [0, 3_600_000, 7_200_000],
+    );
+  });
+
+  it("skips months without the start's day", () => {
+    const dates = take("FREQ=MONTHLY", new Date(2024, 0, 31, 12, 0), 4);
+    assert.deepEqual(
+      dates.map((date) => [date.getMonth() + 1, date.getDate()]),
+      [[1, 31], [3, 31], [5, 31], [7, 31]],
+    );
+  });
+
+  it("stops after COUNT occurrences", () => {
+    assert.equal(take("FREQ=DAILY;COUNT=3", new Date(2024, 0, 1, 9, 0), 10).length, 3);
+  });
+
+  it("stops after UNTIL", () => {
+    const dates = take("FREQ=DAILY;UNTIL=20240103", new Date(2024, 0, 1, 9, 0), 10);
+    assert.deepEqual(dates.map((date) => date.getDate()), [1, 2, 3]);
+  });
+
+  it("walks BYDAY weeks from the start, honouring INTERVAL and COUNT", () => {
+    // Wednesday 1 May 2024
+    const dates = take("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=4", new Date(2024, 4, 1, 10, 0), 10);
+    assert.deepEqual(
+      dates.map((date) => [date.getMonth() + 1, date.getDate(), date.getHours()]),
+      [[5, 3, 10], [5, 13, 10], [5, 17, 10], [5, 27, 10]],
+    );
+  });
+
+  it("filters daily rules by BYDAY", () => {
+    // Friday 3 May 2024
+    const dates = take("FREQ=DAILY;BYDAY=SA,SU", new Date(2024, 4, 3, 8, 0), 3);
+    assert.deepEqual(dates.map((date) => date.getDay()), [6, 0, 6]);
+  });
+});
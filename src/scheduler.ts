@@ -0,0 +1,353 @@
+import P from "pino";
+
+import {
+  type ScheduledMessage,
+  type ScheduleCatchUpPolicy,
+  SCHEDULE_CATCH_UP_POLICIES,
+  createScheduledMessage,
+  getDueScheduledMessages,
+  getNextScheduledRunTime,
+  advanceScheduledMessage,
+  setScheduledMessageLastOutboxId,
+  cancelScheduledMessage,
+  recordAuditEntry,
+} from "./database.ts";
+import type { Outbox } from "./outbox.ts";
+import { summarizePayload } from "./audit.ts";
+
+// A run this late (e.g. after downtime) counts as missed and follows the
+// schedule's catch-up policy instead of being sent as usual
+const GRACE_MS = Number(process.env.SCHEDULE_GRACE_SECONDS || 300) * 1000;
+export const DEFAULT_CATCH_UP_POLICY: ScheduleCatchUpPolicy =
+  (SCHEDULE_CATCH_UP_POLICIES as readonly string[]).includes(process.env.SCHEDULE_CATCH_UP ?? "")
+    ? (process.env.SCHEDULE_CATCH_UP as ScheduleCatchUpPolicy)
+    : "send_once";
+// Upper bound for "send_all" so a long outage doesn't flood a chat
+const MAX_CATCH_UP_SENDS = 20;
+const IDLE_POLL_MS = 60_000;
+// Bounds how far a rule is walked (e.g. an hourly rule is ~8,800 steps a year)
+const MAX_RECURRENCE_STEPS = 100_000;
+
+type Frequency = "HOURLY" | "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface Recurrence {
+  freq: Frequency;
+  interval: number;
+  /** Weekdays as Date#getDay() values (0 = Sunday). */
+  byDay: number[] | null;
+  count: number | null;
+  until: Date | null;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function parseUntil(value: string): Date {
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (compact) {
+    const [, y, mo, d, h, mi, sec, utc] = compact;
+    if (h === undefined) {
+      // Date-only UNTIL includes the whole day
+      return new Date(Number(y), Number(mo) - 1, Number(d), 23, 59, 59, 999);
+    }
+    const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(sec)] as const;
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid UNTIL value "${value}".`);
+  }
+  return date;
+}
+
+/**
+ * Parses the supported subset of an iCalendar RRULE, e.g.
+ * `FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10`. Supports FREQ (HOURLY, DAILY, WEEKLY,
+ * MONTHLY), INTERVAL, BYDAY (plain weekday codes, with DAILY or WEEKLY), COUNT
+ * and UNTIL. Throws on anything else.
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const recurrence: Recurrence = {
+    freq: "DAILY",
+    interval: 1,
+    byDay: null,
+    count: null,
+    until: null,
+  };
+  let hasFreq = false;
+
+  for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [rawKey, value = ""] = part.split("=");
+    const key = rawKey.trim().toUpperCase();
+    const upper = value.trim().toUpperCase();
+    switch (key) {
+      case "FREQ":
+        if (!["HOURLY", "DAILY", "WEEKLY", "MONTHLY"].includes(upper)) {
+          throw new Error(`Unsupported FREQ "${value}". Use HOURLY, DAILY, WEEKLY or MONTHLY.`);
+        }
+        recurrence.freq = upper as Frequency;
+        hasFreq = true;
+        break;
+      case "INTERVAL":
+        recurrence.interval = Number(upper);
+        if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1) {
+          throw new Error(`INTERVAL must be a positive integer, got "${value}".`);
+        }
+        break;
+      case "BYDAY":
+        recurrence.byDay = upper.split(",").map((code) => {
+          const day = WEEKDAY_CODES.indexOf(code.trim());
+          if (day < 0) {
+            throw new Error(`Unsupported BYDAY value "${code}". Use MO, TU, WE, TH, FR, SA or SU.`);
+          }
+          return day;
+        });
+        break;
+      case "COUNT":
+        recurrence.count = Number(upper);
+        if (!Number.isInteger(recurrence.count) || recurrence.count < 1) {
+          throw new Error(`COUNT must be a positive integer, got "${value}".`);
+        }
+        break;
+      case "UNTIL":
+        recurrence.until = parseUntil(value.trim());
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part "${rawKey}".`);
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error("Recurrence rule must include FREQ, e.g. FREQ=WEEKLY;BYDAY=MO.");
+  }
+  if (recurrence.byDay && !["DAILY", "WEEKLY"].includes(recurrence.freq)) {
+    throw new Error("BYDAY is only supported with FREQ=DAILY or FREQ=WEEKLY.");
+  }
+  if (recurrence.count !== null && recurrence.until) {
+    throw new Error("Use either COUNT or UNTIL, not both.");
+  }
+  return recurrence;
+}
+
+/**
+ * Yields every occurrence of `rule` anchored at `start`, in order. Daily and
+ * longer steps use local calendar arithmetic, so the wall-clock time holds
+ * across DST changes. Monthly rules skip months without the start's day.
+ */
+function* occurrences(rule: string | null, start: Date): Generator<Date> {
+  if (!rule) {
+    yield start;
+    return;
+  }
+  const rec = parseRecurrence(rule);
+  let emitted = 0;
+  const accept = (date: Date) =>
+    (rec.count === null || emitted < rec.count) && (!rec.until || date <= rec.until);
+
+  if (rec.freq === "WEEKLY" && rec.byDay) {
+    // Walk whole weeks from the Monday of the start's week
+    const offsets = rec.byDay.map((day) => (day + 6) % 7).sort((a, b) => a - b);
+    const weekStart = new Date(start);
+    weekStart.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    for (let week = 0; week < MAX_RECURRENCE_STEPS; week += rec.interval) {
+      for (const offset of offsets) {
+        const date = new Date(weekStart);
+        date.setDate(weekStart.getDate() + week * 7 + offset);
+        if (date < start) continue;
+        if (!accept(date)) return;
+        emitted++;
+        yield date;
+      }
+    }
+    return;
+  }
+
+  for (let n = 0; n < MAX_RECURRENCE_STEPS; n++) {
+    const date = new Date(start);
+    const step = n * rec.interval;
+    switch (rec.freq) {
+      case "HOURLY":
+        date.setTime(start.getTime() + step * 3_600_000);
+        break;
+      case "DAILY":
+        date.setDate(start.getDate() + step);
+        break;
+      case "WEEKLY":
+        date.setDate(start.getDate() + step * 7);
+        break;
+      case "MONTHLY":
+        date.setMonth(start.getMonth() + step);
+        if (date.getDate() !== start.getDate()) continue;
+        break;
+    }
+    if (rec.byDay && !rec.byDay.includes(date.getDay())) continue;
+    if (!accept(date)) return;
+    emitted++;
+    yield date;
+  }
+}
+
+/** First occurrence strictly after `after`, or null when the rule has ended. */
+export function nextOccurrence(
+  rule: string | null,
+  start: Date,
+  after: Date,
+): Date | null {
+  for (const date of occurrences(rule, start)) {
+    if (date > after) return date;
+  }
+  return null;
+}
+
+function countOccurrences(
+  rule: string | null,
+  start: Date,
+  from: Date,
+  to: Date,
+  max: number,
+): number {
+  let count = 0;
+  for (const date of occurrences(rule, start)) {
+    if (date > to || count >= max) break;
+    if (date >= from) count++;
+  }
+  return count;
+}
+
+export interface Scheduler {
+  /**
+   * Validates and stores a schedule. `sendAt` is the first (or only) send
+   * time; a recurrence repeats it from there.
+   */
+  schedule(
+    chatJid: string,
+    payload: ScheduledMessage["payload"],
+    sendAt: Date,
+    recurrence: string | null,
+    catchUp: ScheduleCatchUpPolicy,
+  ): ScheduledMessage;
+  /** Cancels an active schedule; returns null if it isn't active. */
+  cancel(id: number): ScheduledMessage | null;
+  stop(): void;
+}
+
+/**
+ * Starts the in-process scheduler. Due messages are handed to the outbox, which
+ * does the actual sending and retries. A run is claimed in the database before
+ * it is queued, so each occurrence is queued at most once even across restarts.
+ */
+export function startScheduler(outbox: Outbox, logger: P.Logger): Scheduler {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const fire = (job: ScheduledMessage, now: Date) => {
+    const runAt = job.next_run_at!;
+    const next = nextOccurrence(job.recurrence, job.starts_at, now);
+    const missed = now.getTime() - runAt.getTime() > GRACE_MS;
+
+    let sends = 1;
+    if (missed && job.catch_up === "skip") {
+      sends = 0;
+    } else if (missed && job.catch_up === "send_all") {
+      sends = countOccurrences(job.recurrence, job.starts_at, runAt, now, MAX_CATCH_UP_SENDS);
+    }
+
+    const claimed = advanceScheduledMessage(job.id, runAt, {
+      next_run_at: next,
+      runs: sends,
+      last_run_at: sends > 0 ? now : null,
+    });
+    if (!claimed) return;
+
+    if (missed) {
+      logger.warn(
+        { scheduleId: job.id, runAt, policy: job.catch_up, sends },
+        "Scheduled message missed its time; applied catch-up policy",
+      );
+    }
+    for (let i = 0; i < sends; i++) {
+      const item = outbox.enqueue(job.chat_jid, job.payload);
+      setScheduledMessageLastOutboxId(job.id, item.id);
+      recordAuditEntry({
+        timestamp: now,
+        tool: "scheduler",
+        status: "queued",
+        chat_jid: job.chat_jid,
+        ...summarizePayload(job.payload),
+        outbox_id: item.id,
+        schedule_id: job.id,
+        details: { run_at: runAt.toISOString(), missed },
+      });
+    }
+    logger.info(
+      { scheduleId: job.id, sends, nextRunAt: next },
+      next ? "Scheduled message fired" : "Scheduled message fired for the last time",
+    );
+  };
+
+  const tick = () => {
+    timer = null;
+    if (stopped) return;
+    try {
+      const now = new Date();
+      for (const job of getDueScheduledMessages(now)) {
+        try {
+          fire(job, now);
+        } catch (error) {
+          logger.error({ err: error, scheduleId: job.id }, "Failed to fire scheduled message");
+        }
+      }
+    } finally {
+      wake();
+    }
+  };
+
+  const wake = () => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    const next = getNextScheduledRunTime();
+    const delay = next ? Math.min(next.getTime() - Date.now(), IDLE_POLL_MS) : IDLE_POLL_MS;
+    timer = setTimeout(tick, Math.max(delay, 0));
+  };
+
+  wake();
+
+  return {
+    schedule: (chatJid, payload, sendAt, recurrence, catchUp) => {
+      if (isNaN(sendAt.getTime())) {
+        throw new Error("Invalid send time.");
+      }
+      if (recurrence) parseRecurrence(recurrence);
+      const firstRunAt = nextOccurrence(recurrence, sendAt, new Date(sendAt.getTime() - 1));
+      if (!firstRunAt) {
+        throw new Error("The recurrence rule produces no occurrences from the given time.");
+      }
+      if (firstRunAt.getTime() < Date.now() - GRACE_MS) {
+        throw new Error(`Send time ${firstRunAt.toISOString()} is in the past.`);
+      }
+      const job = createScheduledMessage(
+        chatJid,
+        payload,
+        sendAt,
+        firstRunAt,
+        recurrence,
+        catchUp,
+      );
+      logger.info({ scheduleId: job.id, chatJid, firstRunAt, recurrence }, "Message scheduled");
+      wake();
+      return job;
+    },
+    cancel: (id) => {
+      const cancelled = cancelScheduledMessage(id);
+      if (cancelled) {
+        logger.info({ scheduleId: id }, "Scheduled message cancelled");
+      }
+      return cancelled;
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildVCard, parseVCards } from "./vcard.ts";
+
+describe("parseVCards", () => {
+  it("reads every card, preferring waid over the written number", () => {
+    const text = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "FN:Alice Smith",
+      "TEL;type=CELL;waid=447700900123:+44 7700 900123",
+      "item1.TEL:+1 (415) 555-0123",
+      "END:VCARD",
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Doe;Jane;Q;;",
+      "TEL:+33 6 12 34 56 78",
+      "END:VCARD",
+    ].join("\r\n");
+    assert.deepEqual(parseVCards(text), [
+      { display_name: "Alice Smith", phone_numbers: ["447700900123", "14155550123"] },
+      { display_name: "Jane Q Doe", phone_numbers: ["33612345678"] },
+    ]);
+  });
+
+  it("unfolds continuation lines and unescapes values", () => {
+    const text = "BEGIN:VCARD\nFN:Smith\\, \n Alice\\nJr.\nTEL:+4477\n 00900123\nEND:VCARD\n";
+    assert.deepEqual(parseVCards(text), [
+      { display_name: "Smith, Alice\nJr.", phone_numbers: ["447700900123"] },
+    ]);
+  });
+
+  it("names a card without FN or N after its number, and drops empty cards", () => {
+    const text = "BEGIN:VCARD\nTEL:+44 7700 900123\nEND:VCARD\nBEGIN:VCARD\nEND:VCARD\n";
+    assert.deepEqual(parseVCards(text), [
+      { display_name: "+447700900123", phone_numbers: ["447700900123"] },
+    ]);
+  });
+
+  it("returns numbers as written with rawNumbers", () => {
+    const text = "BEGIN:VCARD\nFN:Bob\nTEL:07700 900123\nTEL;waid=14155550123:+1 415 555 0123\nEND:VCARD";
+    assert.deepEqual(parseVCards(text, { rawNumbers: true }), [
+      { display_name: "Bob", phone_numbers: ["07700 900123", "+14155550123"] },
+    ]);
+  });
+
+  it("reads back what buildVCard writes", () => {
+    const contact = { display_name: "O'Brien; Pat, Jr.", phone_numbers: ["447700900123", "14155550123"] };
+    assert.deepEqual(parseVCards(buildVCard(contact)), [contact]);
+  });
+});
@@ -0,0 +1,79 @@
+// Minimal vCard 3.0 support: enough to build the cards WhatsApp sends and to
+// read names and phone numbers back out of received or exported ones.
+
+export type VCardContact = {
+  display_name: string;
+  phone_numbers: string[];
+};
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, c: string) => (c.toLowerCase() === "n" ? "\n" : c));
+}
+
+/**
+ * Builds a vCard in the form WhatsApp clients produce. The `waid` parameter
+ * links each number to its WhatsApp account so the card gets a "Message" button.
+ */
+export function buildVCard(contact: VCardContact): string {
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeValue(contact.display_name)}`,
+  ];
+  for (const phone of contact.phone_numbers) {
+    const digits = phone.replace(/\D/g, "");
+    lines.push(`TEL;type=CELL;waid=${digits}:+${digits}`);
+  }
+  lines.push("END:VCARD");
+  return lines.join("\n");
+}
+
+/**
+ * Parses every card in `text`. Folded lines are joined; the display name is
+ * FN, falling back to N. Phone numbers come from TEL lines, preferring the
+ * `waid` parameter, and are returned as digits. With `rawNumbers` they are
+ * returned as written instead (a `waid` as "+<digits>"), so numbers without
+ * a country code can still be told apart.
+ */
+export function parseVCards(text: string, { rawNumbers = false } = {}): VCardContact[] {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const contacts: VCardContact[] = [];
+  let current: { fn: string | null; n: string | null; phones: string[] } | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    // Property names may carry a group prefix, e.g. "item1.TEL"
+    const [rawName, ...params] = line.slice(0, separator).split(";");
+    const name = rawName.replace(/^[^.]*\./, "").toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+      current = { fn: null, n: null, phones: [] };
+    } else if (name === "END" && value.toUpperCase() === "VCARD") {
+      if (current) {
+        const displayName =
+          current.fn ?? current.n ?? (current.phones[0] ? `+${current.phones[0].replace(/^\+/, "")}` : null);
+        if (displayName) {
+          contacts.push({ display_name: displayName, phone_numbers: [...new Set(current.phones)] });
+        }
+      }
+      current = null;
+    } else if (current && name === "FN" && value) {
+      current.fn = unescapeValue(value);
+    } else if (current && name === "N" && value) {
+      // N is "Family;Given;Additional;Prefix;Suffix"
+      const [family = "", given = "", additional = ""] = value.split(/(?<!\\);/).map(unescapeValue);
+      current.n = [given, additional, family].filter(Boolean).join(" ") || null;
+    } else if (current && name === "TEL") {
+      const waid = params.find((param) => /^waid=/i.test(param))?.slice(5);
+      const digits = (waid || value).replace(/\D/g, "");
+      if (digits) current.phones.push(rawNumbers ? (waid ? `+${digits}` : value) : digits);
+    }
+  }
+  return contacts;
+}
@@ -4,72 +4,144 @@ import {
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
   DisconnectReason,
+  type ConnectionState as BaileysConnectionState,
+  type Contact as BaileysContact,
+  type GroupMetadata,
+  type GroupParticipant,
   type WAMessage,
+  type WAMessageKey,
+  proto,
   isJidGroup,
+  normalizeMessageContent,
+  WAMessageStubType,
   jidNormalizedUser,
+  jidDecode,
+  isLidUser,
+  isPnUser,
+  decryptPollVote,
 } from "@whiskeysockets/baileys";
 import P from "pino";
 import path from "node:path";
 import fs from "node:fs";
-import open from "open";
+import crypto from "node:crypto";
 
 import {
   initializeDatabase,
   storeMessage,
   storeChat,
+  markChatRead,
+  markChatUnread,
+  incrementChatUnread,
+  setChatUnreadCount,
+  setChatMutedUntil,
+  MUTED_FOREVER,
+  storeContacts,
+  type Contact as DbContact,
+  applyMessageEdit,
+  markMessageDeleted,
+  storeReaction,
+  updateMessageStatus,
+  storeMessageReceipt,
+  storePoll,
+  getPoll,
+  storePollVote,
+  type Poll,
+  storeGroup,
+  syncGroups,
+  applyGroupParticipantsChange,
+  removeGroup,
+  getGroup,
+  type Group,
+  type GroupMember,
+  MESSAGE_STATUSES,
+  type MessageStatus,
   type Message as DbMessage,
+  type MessageMedia,
+  type MessageLocation,
+  type SharedContact,
+  type MediaType,
 } from "./database.ts";
+import { parseVCards } from "./vcard.ts";
+import { renderQrForTerminal, writeQrPng, removeQrPng } from "./qr.ts";
 
 const AUTH_DIR = path.join(import.meta.dirname, "..", "auth_info");
 
 export type WhatsAppSocket = ReturnType<typeof makeWASocket>;
 
-function parseMessageForDb(msg: WAMessage): DbMessage | null {
-  if (!msg.message || !msg.key || !msg.key.remoteJid) {
+/** Renders the displayable text of a message payload, or null if unsupported. */
+function extractTextContent(
+  message: proto.IMessage | null | undefined,
+): string | null {
+  if (!message) {
     return null;
   }
 
   let content: string | null = null;
-  const messageType = Object.keys(msg.message)[0];
-
-  if (msg.message.conversation) {
-    content = msg.message.conversation;
-  } else if (msg.message.extendedTextMessage?.text) {
-    content = msg.message.extendedTextMessage.text;
-  } else if (msg.message.imageMessage?.caption) {
-    content = `[Image] ${msg.message.imageMessage.caption}`;
-  } else if (msg.message.videoMessage?.caption) {
-    content = `[Video] ${msg.message.videoMessage.caption}`;
-  } else if (msg.message.documentMessage?.caption) {
+
+  if (message.conversation) {
+    content = message.conversation;
+  } else if (message.extendedTextMessage?.text) {
+    content = message.extendedTextMessage.text;
+  } else if (message.imageMessage) {
+    content = `[Image] ${message.imageMessage.caption || ""}`.trim();
+  } else if (message.videoMessage) {
+    content = `[Video] ${message.videoMessage.caption || ""}`.trim();
+  } else if (message.documentMessage) {
     content = `[Document] ${
-      msg.message.documentMessage.caption ||
-      msg.message.documentMessage.fileName ||
+      message.documentMessage.caption ||
+      message.documentMessage.fileName ||
       ""
-    }`;
-  } else if (msg.message.audioMessage) {
+    }`.trim();
+  } else if (message.audioMessage) {
     content = `[Audio]`;
-  } else if (msg.message.stickerMessage) {
+  } else if (message.stickerMessage) {
     content = `[Sticker]`;
-  } else if (msg.message.locationMessage?.address) {
-    content = `[Location] ${msg.message.locationMessage.address}`;
-  } else if (msg.message.contactMessage?.displayName) {
-    content = `[Contact] ${msg.message.contactMessage.displayName}`;
-  } else if (msg.message.pollCreationMessage?.name) {
-    content = `[Poll] ${msg.message.pollCreationMessage.name}`;
+  } else if (message.locationMessage || message.liveLocationMessage) {
+    const location = message.locationMessage;
+    const label = location
+      ? [location.name, location.address].filter(Boolean).join(", ")
+      : message.liveLocationMessage?.caption;
+    content = `[${location ? "Location" : "Live location"}] ${label || ""}`.trim();
+  } else if (message.contactMessage) {
+    content = `[Contact] ${message.contactMessage.displayName || ""}`.trim();
+  } else if (message.contactsArrayMessage) {
+    const names = (message.contactsArrayMessage.contacts ?? [])
+      .map((contact) => contact.displayName)
+      .filter(Boolean);
+    content = `[Contacts] ${names.join(", ")}`.trim();
+  } else {
+    const poll = pollCreationOf(message);
+    if (poll?.name) {
+      content = `[Poll] ${poll.name}`;
+    }
   }
 
-  if (!content) {
+  return content;
+}
+
+function toDateFromSeconds(value: number | bigint | { toNumber(): number } | null | undefined): Date {
+  return value != null ? new Date(Number(value) * 1000) : new Date();
+}
+
+// WhatsApp's mute end: milliseconds since the epoch, -1 for "always", null or 0 when unmuted
+function toMutedUntil(value: number | bigint | { toNumber(): number } | null | undefined): Date | null {
+  const ms = value != null ? Number(value) : 0;
+  if (ms < 0) return MUTED_FOREVER;
+  return ms > Date.now() ? new Date(ms) : null;
+}
+
+function parseMessageForDb(msg: WAMessage): DbMessage | null {
+  if (!msg.message || !msg.key || !msg.key.remoteJid) {
     return null;
   }
 
-  const timestampNum =
-    typeof msg.messageTimestamp === "number"
-      ? msg.messageTimestamp * 1000
-      : typeof msg.messageTimestamp === "bigint"
-      ? Number(msg.messageTimestamp) * 1000
-      : Date.now();
+  const content = extractTextContent(msg.message);
+
+  if (!content) {
+    return null;
+  }
 
-  const timestamp = new Date(timestampNum);
+  const timestamp = toDateFromSeconds(msg.messageTimestamp);
 
   let senderJid: string | null | undefined = msg.key.participant;
   if (!msg.key.fromMe && !senderJid && !isJidGroup(msg.key.remoteJid)) {
@@ -86,73 +158,797 @@ function parseMessageForDb(msg: WAMessage): DbMessage | null {
     content: content,
     timestamp: timestamp,
     is_from_me: msg.key.fromMe ?? false,
+    media: extractMediaDescriptor(msg),
+    location: extractLocation(msg.message),
+    contacts: extractSharedContacts(msg.message),
+    status: msg.key.fromMe ? toMessageStatus(msg.status) : null,
   };
 }
 
+function toMessageStatus(status: number | null | undefined): MessageStatus | null {
+  return status != null ? (MESSAGE_STATUSES[status] ?? null) : null;
+}
+
+/**
+ * Records a status change for one of our messages. In 1:1 chats the chat
+ * partner is the only recipient, so the change also becomes their receipt.
+ */
+function applyStatusUpdate(key: proto.IMessageKey, status: number): void {
+  const messageStatus = toMessageStatus(status);
+  if (!key.id || !key.remoteJid || !messageStatus) return;
+  updateMessageStatus(key.id, key.remoteJid, messageStatus);
+
+  if (!isJidGroup(key.remoteJid) && key.fromMe) {
+    const now = new Date();
+    storeMessageReceipt({
+      message_id: key.id,
+      chat_jid: key.remoteJid,
+      recipient_jid: jidNormalizedUser(key.remoteJid),
+      delivered_at: status >= proto.WebMessageInfo.Status.DELIVERY_ACK ? now : null,
+      read_at: status >= proto.WebMessageInfo.Status.READ ? now : null,
+      played_at: status >= proto.WebMessageInfo.Status.PLAYED ? now : null,
+    });
+  }
+}
+
+/**
+ * Applies REVOKE ("delete for everyone") and MESSAGE_EDIT protocol messages to
+ * the message they target. Returns true if `msg` was a protocol message of any
+ * kind, so callers don't try to store it as a regular message.
+ */
+function applyProtocolMessage(logger: P.Logger, msg: WAMessage): boolean {
+  const protocolMessage = normalizeMessageContent(msg.message)?.protocolMessage;
+  if (!protocolMessage) {
+    return false;
+  }
+  const targetId = protocolMessage.key?.id;
+  const chatJid = msg.key?.remoteJid;
+  if (!targetId || !chatJid) {
+    return true;
+  }
+
+  if (protocolMessage.type === proto.Message.ProtocolMessage.Type.REVOKE) {
+    if (markMessageDeleted(targetId, chatJid, toDateFromSeconds(msg.messageTimestamp))) {
+      logger.info({ msgId: targetId, chatId: chatJid }, "Message revoked by sender");
+    }
+  } else if (protocolMessage.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT) {
+    const newContent = extractTextContent(
+      normalizeMessageContent(protocolMessage.editedMessage),
+    );
+    const editedAt = protocolMessage.timestampMs
+      ? new Date(Number(protocolMessage.timestampMs))
+      : toDateFromSeconds(msg.messageTimestamp);
+    if (newContent && applyMessageEdit(targetId, chatJid, newContent, editedAt)) {
+      logger.info({ msgId: targetId, chatId: chatJid }, "Message edited by sender");
+    }
+  }
+  return true;
+}
+
+/** JID of the linked account without a device suffix, or null before login. */
+export function getSelfJid(sock: WhatsAppSocket | null): string | null {
+  return sock?.user?.id ? jidNormalizedUser(sock.user.id) : null;
+}
+
+function reactorJidFor(
+  key: proto.IMessageKey,
+  selfJid: string | null,
+): string | null {
+  if (key.fromMe) return selfJid;
+  const jid = key.participant || key.remoteJid;
+  return jid ? jidNormalizedUser(jid) : null;
+}
+
+function recordReaction(
+  chatJid: string | null | undefined,
+  messageId: string | null | undefined,
+  reactorJid: string | null,
+  reaction: proto.IReaction | proto.Message.IReactionMessage,
+  fallbackTimestamp?: WAMessage["messageTimestamp"],
+): void {
+  if (!chatJid || !messageId || !reactorJid) return;
+  storeReaction({
+    message_id: messageId,
+    chat_jid: chatJid,
+    reactor_jid: reactorJid,
+    emoji: reaction.text ?? "",
+    timestamp: reaction.senderTimestampMs
+      ? new Date(Number(reaction.senderTimestampMs))
+      : toDateFromSeconds(fallbackTimestamp),
+  });
+}
+
+/**
+ * Stores the reaction carried by a reactionMessage payload. Returns true if
+ * `msg` was a reaction, so callers don't store it as a regular message.
+ */
+function applyReactionMessage(msg: WAMessage, selfJid: string | null): boolean {
+  const reaction = normalizeMessageContent(msg.message)?.reactionMessage;
+  if (!reaction) {
+    return false;
+  }
+  recordReaction(
+    msg.key?.remoteJid,
+    reaction.key?.id,
+    reactorJidFor(msg.key, selfJid),
+    reaction,
+    msg.messageTimestamp,
+  );
+  return true;
+}
+
+// Single-choice polls arrive as V3 and community announcement polls as V2
+function pollCreationOf(
+  message: proto.IMessage | null | undefined,
+): proto.Message.IPollCreationMessage | null {
+  return (
+    message?.pollCreationMessage ??
+    message?.pollCreationMessageV2 ??
+    message?.pollCreationMessageV3 ??
+    null
+  );
+}
+
+// Votes name options by the SHA-256 of the option text
+function pollOptionHash(option: string): string {
+  return crypto.createHash("sha256").update(option).digest("hex");
+}
+
+/**
+ * Stores a poll together with its secret so later votes can be decrypted. The
+ * poll message itself is stored as a regular message by the caller.
+ */
+function recordPollCreation(msg: WAMessage, selfJid: string | null): void {
+  const content = normalizeMessageContent(msg.message);
+  const poll = pollCreationOf(content);
+  const secret =
+    content?.messageContextInfo?.messageSecret ?? msg.message?.messageContextInfo?.messageSecret;
+  const creatorJid = msg.key ? reactorJidFor(msg.key, selfJid) : null;
+  if (!poll || !secret?.length || !msg.key?.id || !msg.key.remoteJid || !creatorJid) return;
+  storePoll({
+    message_id: msg.key.id,
+    chat_jid: msg.key.remoteJid,
+    creator_jid: creatorJid,
+    question: poll.name ?? "",
+    options: (poll.options ?? []).map((option) => option.optionName ?? ""),
+    selectable_count: poll.selectableOptionsCount ?? 0,
+    enc_key: Buffer.from(secret).toString("base64"),
+    created_at: toDateFromSeconds(msg.messageTimestamp),
+  });
+}
+
+function recordPollVote(
+  poll: Poll,
+  voterJid: string | null,
+  selectedHashes: Uint8Array[],
+  timestamp: Date,
+): void {
+  if (!voterJid) return;
+  const byHash = new Map(poll.options.map((option) => [pollOptionHash(option), option]));
+  storePollVote({
+    poll_message_id: poll.message_id,
+    chat_jid: poll.chat_jid,
+    voter_jid: voterJid,
+    selected_options: selectedHashes.map(
+      (hash) => byHash.get(Buffer.from(hash).toString("hex")) ?? "Unknown",
+    ),
+    timestamp,
+  });
+}
+
+// The JIDs a party may have used in the vote's encryption context: the phone
+// number JID or, in LID-addressed chats, the LID
+function pollJidCandidates(
+  key: WAMessageKey,
+  sock: WhatsAppSocket,
+): string[] {
+  const jids = key.fromMe
+    ? [sock.user?.id, sock.user?.lid]
+    : [key.participant || key.remoteJid, key.participantAlt || key.remoteJidAlt];
+  return [...new Set(jids.filter((jid): jid is string => Boolean(jid)).map(jidNormalizedUser))];
+}
+
+/**
+ * Decrypts and stores the vote carried by a pollUpdateMessage. Votes for polls
+ * we never saw can't be decrypted and are dropped. Returns true if `msg` was a
+ * vote, so callers don't store it as a regular message.
+ */
+function applyPollUpdateMessage(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  msg: WAMessage,
+): boolean {
+  const update = normalizeMessageContent(msg.message)?.pollUpdateMessage;
+  if (!update) {
+    return false;
+  }
+  const pollKey = update.pollCreationMessageKey;
+  const chatJid = msg.key?.remoteJid;
+  if (!pollKey?.id || !chatJid || !update.vote?.encPayload || !update.vote.encIv) {
+    return true;
+  }
+  const poll = getPoll(pollKey.id, chatJid);
+  if (!poll) {
+    logger.warn({ pollId: pollKey.id, chatId: chatJid }, "Vote for unknown poll; cannot decrypt");
+    return true;
+  }
+
+  const pollEncKey = Buffer.from(poll.enc_key, "base64");
+  const creators = [...new Set([poll.creator_jid, ...pollJidCandidates(pollKey, sock)])];
+  for (const pollCreatorJid of creators) {
+    for (const voterJid of pollJidCandidates(msg.key, sock)) {
+      let vote: proto.Message.PollVoteMessage;
+      try {
+        vote = decryptPollVote(update.vote as { encPayload: Uint8Array; encIv: Uint8Array }, {
+          pollCreatorJid,
+          pollMsgId: pollKey.id,
+          pollEncKey,
+          voterJid,
+        });
+      } catch {
+        continue; // wrong JID pair: authentication fails
+      }
+      recordPollVote(
+        poll,
+        reactorJidFor(msg.key, getSelfJid(sock)),
+        vote.selectedOptions ?? [],
+        update.senderTimestampMs
+          ? new Date(Number(update.senderTimestampMs))
+          : toDateFromSeconds(msg.messageTimestamp),
+      );
+      logger.info({ pollId: poll.message_id, chatId: chatJid }, "Poll vote recorded");
+      return true;
+    }
+  }
+  logger.warn({ pollId: pollKey.id, chatId: chatJid }, "Failed to decrypt poll vote");
+  return true;
+}
+
+// Baileys keys a contact by either its phone-number JID or its LID and
+// reports the other form, when known, in `phoneNumber` / `lid`
+function toDbContact(contact: Partial<BaileysContact> & { id: string }): DbContact {
+  const jid = jidNormalizedUser(contact.id);
+  const pnJid = contact.phoneNumber ?? (isPnUser(jid) ? jid : undefined);
+  return {
+    jid,
+    name: contact.name,
+    notify: contact.notify,
+    verified_name: contact.verifiedName,
+    phone: pnJid ? jidDecode(pnJid)?.user : undefined,
+    lid: contact.lid ? jidNormalizedUser(contact.lid) : isLidUser(jid) ? jid : undefined,
+  };
+}
+
+/**
+ * Stores contacts from a Baileys event or snapshot, recording `source` for
+ * each field written. Returns how many of them carried a name.
+ */
+function storeBaileysContacts(contacts: Partial<BaileysContact>[], source: string): number {
+  const valid = contacts.filter(
+    (contact): contact is Partial<BaileysContact> & { id: string } =>
+      Boolean(contact.id) && !isJidGroup(contact.id),
+  );
+  storeContacts(valid.map(toDbContact), source);
+  return valid.filter((contact) => contact.name || contact.notify || contact.verifiedName).length;
+}
+
+function toGroupMember(participant: GroupParticipant): GroupMember {
+  return {
+    jid: participant.id,
+    lid: participant.lid ?? null,
+    phone_number: participant.phoneNumber ?? null,
+    admin: participant.admin ?? null,
+  };
+}
+
+function toDbGroup(metadata: Partial<GroupMetadata> & { id: string }): Group {
+  return {
+    jid: metadata.id,
+    subject: metadata.subject,
+    owner: metadata.owner,
+    // An empty description (removed) must still overwrite the stored one
+    description: metadata.desc ?? (metadata.descId !== undefined ? "" : undefined),
+    created_at: metadata.creation ? toDateFromSeconds(metadata.creation) : undefined,
+    announce: metadata.announce,
+    restrict: metadata.restrict,
+    is_community: metadata.isCommunity,
+    linked_parent: metadata.linkedParent,
+    addressing_mode: metadata.addressingMode,
+    ephemeral_duration: metadata.ephemeralDuration,
+    participants: metadata.participants?.map(toGroupMember),
+  };
+}
+
+/** Rebuilds Baileys' group metadata from the groups tables. */
+function toGroupMetadata(group: Group): GroupMetadata {
+  return {
+    id: group.jid,
+    subject: group.subject ?? "",
+    owner: group.owner ?? undefined,
+    desc: group.description ?? undefined,
+    creation: group.created_at ? Math.floor(group.created_at.getTime() / 1000) : undefined,
+    announce: group.announce,
+    restrict: group.restrict,
+    isCommunity: group.is_community,
+    linkedParent: group.linked_parent ?? undefined,
+    addressingMode: (group.addressing_mode ?? undefined) as GroupMetadata["addressingMode"],
+    ephemeralDuration: group.ephemeral_duration ?? undefined,
+    size: group.participants?.length,
+    participants: (group.participants ?? []).map((member) => ({
+      id: member.jid,
+      lid: member.lid ?? undefined,
+      phoneNumber: member.phone_number ?? undefined,
+      admin: member.admin ?? null,
+    })),
+  };
+}
+
+/** Mirrors every group we're in into the groups tables. */
+async function syncAllGroups(logger: P.Logger, sock: WhatsAppSocket): Promise<void> {
+  try {
+    const groups = await sock.groupFetchAllParticipating();
+    syncGroups(Object.values(groups).map(toDbGroup));
+    logger.info(`Synced ${Object.keys(groups).length} groups.`);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to sync groups");
+  }
+}
+
+export const MEDIA_MESSAGE_FIELDS: Record<MediaType, keyof proto.IMessage> = {
+  image: "imageMessage",
+  video: "videoMessage",
+  document: "documentMessage",
+  audio: "audioMessage",
+  sticker: "stickerMessage",
+};
+
+function extractLocation(message: proto.IMessage | null | undefined): MessageLocation | null {
+  const live = message?.liveLocationMessage;
+  const location = message?.locationMessage ?? live;
+  if (location?.degreesLatitude == null || location.degreesLongitude == null) return null;
+  const fixed = message?.locationMessage;
+  return {
+    latitude: location.degreesLatitude,
+    longitude: location.degreesLongitude,
+    name: fixed?.name ?? null,
+    address: fixed?.address ?? null,
+    url: fixed?.url ?? null,
+    is_live: !fixed,
+  };
+}
+
+function extractSharedContacts(message: proto.IMessage | null | undefined): SharedContact[] | null {
+  const cards = message?.contactMessage
+    ? [message.contactMessage]
+    : message?.contactsArrayMessage?.contacts;
+  if (!cards?.length) return null;
+  return cards.map((card) => {
+    const parsed = card.vcard ? parseVCards(card.vcard)[0] : undefined;
+    return {
+      display_name: card.displayName || parsed?.display_name || null,
+      phone_numbers: parsed?.phone_numbers ?? [],
+      vcard: card.vcard ?? null,
+    };
+  });
+}
+
+function toBase64(bytes: Uint8Array | null | undefined): string | null {
+  return bytes && bytes.length ? Buffer.from(bytes).toString("base64") : null;
+}
+
+/**
+ * Pulls the download descriptor (URL, media key, hashes, etc.) out of a media
+ * message so the file can be fetched and decrypted later by download_media.
+ */
+function extractMediaDescriptor(msg: WAMessage): MessageMedia | null {
+  if (!msg.message) return null;
+  for (const [mediaType, field] of Object.entries(MEDIA_MESSAGE_FIELDS) as [
+    MediaType,
+    keyof proto.IMessage,
+  ][]) {
+    const media = msg.message[field] as
+      | (proto.Message.IDocumentMessage & proto.Message.IImageMessage)
+      | null
+      | undefined;
+    if (!media) continue;
+    return {
+      media_type: mediaType,
+      mimetype: media.mimetype ?? null,
+      file_name: media.fileName ?? null,
+      file_length: media.fileLength != null ? Number(media.fileLength) : null,
+      url: media.url ?? null,
+      direct_path: media.directPath ?? null,
+      media_key: toBase64(media.mediaKey),
+      file_sha256: toBase64(media.fileSha256),
+      file_enc_sha256: toBase64(media.fileEncSha256),
+      media_key_timestamp:
+        media.mediaKeyTimestamp != null ? Number(media.mediaKeyTimestamp) : null,
+    };
+  }
+  return null;
+}
+
+export type ConnectionState = "connecting" | "open" | "closed" | "logged_out";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  user: { jid: string | null; name: string | null } | null;
+  connected_since: string | null;
+  uptime_seconds: number | null;
+  last_disconnect_at: string | null;
+  last_error: string | null;
+  reconnect_attempts: number;
+  next_retry_at: string | null;
+}
+
+/**
+ * Owns the current Baileys socket. Reconnects replace the socket in place, so
+ * callers must fetch it via getSocket()/waitForSocket() at the time of use
+ * rather than holding on to an instance.
+ */
+export interface WhatsAppConnection {
+  getSocket(): WhatsAppSocket | null;
+  /** Resolves with the open socket, waiting up to `timeoutMs` for a reconnect; null on timeout. */
+  waitForSocket(timeoutMs?: number): Promise<WhatsAppSocket | null>;
+  getStatus(): ConnectionStatus;
+  getLoginState(): LoginState;
+  /**
+   * Asks WhatsApp for an 8-character code to enter under Linked Devices >
+   * Link with phone number. `phoneNumber` is the account's number in
+   * international format; only its digits are used.
+   */
+  requestPairingCode(phoneNumber: string): Promise<string>;
+  /**
+   * Calls `listener` with the chats that got new messages each time incoming
+   * or sent messages are stored. Returns a function that removes the listener.
+   */
+  onMessagesStored(listener: (chatJids: string[]) => void): () => void;
+}
+
+// Digits only, with country code: the form Baileys expects for pairing codes
+export function normalizePairingPhone(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 15) {
+    throw new Error(
+      `Invalid phone number "${phoneNumber}". Use the full international number, e.g. +14155550123.`
+    );
+  }
+  return digits;
+}
+
+function formatPairingCode(code: string): string {
+  return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+export interface LoginState {
+  /** True once this server holds credentials for a linked device. */
+  paired: boolean;
+  state: ConnectionState;
+  /** Raw QR payload waiting to be scanned, null when none is pending. */
+  qr: string | null;
+  qr_updated_at: string | null;
+  qr_png_path: string | null;
+  /** Phone number (digits only) to link with a pairing code instead of a QR. */
+  pairing_phone: string | null;
+  pairing_code: string | null;
+  pairing_code_issued_at: string | null;
+}
+
+export interface WhatsAppConnectionOptions {
+  /** Link by pairing code for this phone number instead of scanning a QR. */
+  pairingPhone?: string | null;
+}
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 60s, with up to 20% jitter
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+// How long send tools wait for a dropped connection to come back
+export const SOCKET_WAIT_TIMEOUT_MS = Number(process.env.WA_SOCKET_WAIT_MS || 15_000);
+
 export async function startWhatsAppConnection(
-  logger: P.Logger
-): Promise<WhatsAppSocket> {
+  logger: P.Logger,
+  options: WhatsAppConnectionOptions = {}
+): Promise<WhatsAppConnection> {
   initializeDatabase();
 
   const { state, saveCreds } = await useMultiFileAuthState(AUTH_DIR);
   const { version, isLatest } = await fetchLatestBaileysVersion();
   logger.info(`Using WA v${version.join(".")}, isLatest: ${isLatest}`);
 
-  // In-memory cache for group metadata to avoid redundant server fetches
-  const groupMetadataCache = new Map<string, any>();
+  let sock: WhatsAppSocket | null = null;
+  let stopProcessing: (() => void) | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  const openWaiters = new Set<(sock: WhatsAppSocket) => void>();
+  const messageListeners = new Set<(chatJids: string[]) => void>();
+  const login: {
+    qr: string | null;
+    qrUpdatedAt: Date | null;
+    qrPngPath: string | null;
+    pairingPhone: string | null;
+    pairingCode: string | null;
+    pairingCodeIssuedAt: Date | null;
+  } = {
+    qr: null,
+    qrUpdatedAt: null,
+    qrPngPath: null,
+    pairingPhone: options.pairingPhone
+      ? normalizePairingPhone(options.pairingPhone)
+      : null,
+    pairingCode: null,
+    pairingCodeIssuedAt: null,
+  };
+  // Resolved when the current socket is ready to accept a pairing-code request
+  const pairingReadyWaiters = new Set<() => void>();
+
+  const issuePairingCode = async (current: WhatsAppSocket, phone: string) => {
+    const code = formatPairingCode(await current.requestPairingCode(phone));
+    login.pairingCode = code;
+    login.pairingCodeIssuedAt = new Date();
+    logger.info("Pairing code issued. Enter it under WhatsApp > Linked Devices > Link with phone number.");
+    process.stderr.write(
+      `\nWhatsApp pairing code for +${phone}: ${code}\nOpen WhatsApp > Settings > Linked Devices > Link a Device > Link with phone number instead, and enter the code.\n`
+    );
+    return code;
+  };
 
-  const sock = makeWASocket({
-    version,
-    logger,
-    auth: {
-      creds: state.creds,
-      keys: makeCacheableSignalKeyStore(state.keys, logger),
-    },
-    generateHighQualityLinkPreview: true,
-    cachedGroupMetadata: async (jid: string) => groupMetadataCache.get(jid),
-  });
+  // QR codes are rendered locally (terminal + PNG); the pairing secret never
+  // leaves this machine.
+  const onQr = async (current: WhatsAppSocket, qr: string) => {
+    login.qr = qr;
+    login.qrUpdatedAt = new Date();
+    for (const resolve of pairingReadyWaiters) resolve();
+    pairingReadyWaiters.clear();
 
-  // Populate cache when group metadata is fetched
-  sock.ev.on("groups.update", (updates) => {
-    for (const update of updates) {
-      if (update.id && groupMetadataCache.has(update.id)) {
-        groupMetadataCache.set(update.id, { ...groupMetadataCache.get(update.id), ...update });
+    if (login.pairingPhone) {
+      // Pairing-code mode: one code per socket, no QR output
+      if (!login.pairingCode) {
+        try {
+          await issuePairingCode(current, login.pairingPhone);
+        } catch (error) {
+          logger.error({ err: error }, "Failed to request pairing code");
+        }
       }
+      return;
     }
-  });
 
-  // Wait for the connection to be fully open before returning
-  await new Promise<void>((resolve, reject) => {
-    const onUpdate = (update: any) => {
-      const { connection, lastDisconnect } = update;
-      if (connection === "open") {
-        sock.ev.off("connection.update", onUpdate);
-        resolve();
-      } else if (connection === "close") {
-        const statusCode = (lastDisconnect?.error as any)?.output?.statusCode;
-        if (statusCode === DisconnectReason.loggedOut) {
-          sock.ev.off("connection.update", onUpdate);
-          reject(new Error("Logged out"));
+    logger.info(
+      "QR code received. Scan it from WhatsApp > Linked Devices, or fetch it with the get_login_qr tool."
+    );
+    try {
+      // stderr, because stdout carries the MCP stdio transport
+      process.stderr.write(
+        `\nScan this QR code with WhatsApp > Settings > Linked Devices > Link a Device:\n${await renderQrForTerminal(qr)}\n`
+      );
+      login.qrPngPath = await writeQrPng(qr);
+      logger.info({ path: login.qrPngPath }, "QR code written to PNG");
+    } catch (error) {
+      logger.error({ err: error }, "Failed to render QR code");
+    }
+  };
+  const status: {
+    state: ConnectionState;
+    connectedSince: Date | null;
+    lastDisconnectAt: Date | null;
+    lastError: string | null;
+    reconnectAttempts: number;
+    nextRetryAt: Date | null;
+  } = {
+    state: "connecting",
+    connectedSince: null,
+    lastDisconnectAt: null,
+    lastError: null,
+    reconnectAttempts: 0,
+    nextRetryAt: null,
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** status.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS,
+    );
+    const jittered = Math.round(delay * (1 + Math.random() * 0.2));
+    status.reconnectAttempts++;
+    status.nextRetryAt = new Date(Date.now() + jittered);
+    logger.info(
+      { attempt: status.reconnectAttempts, delayMs: jittered },
+      "Reconnecting...",
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      status.nextRetryAt = null;
+      connect();
+    }, jittered);
+  };
+
+  const onConnectionUpdate = (
+    current: WhatsAppSocket,
+    update: Partial<BaileysConnectionState>,
+  ) => {
+    if (current !== sock) return; // late event from a replaced socket
+    const { connection, lastDisconnect, qr } = update;
+
+    if (qr) {
+      void onQr(current, qr);
+    }
+
+    if (connection === "open") {
+      login.qr = null;
+      login.qrUpdatedAt = null;
+      login.qrPngPath = null;
+      login.pairingCode = null;
+      login.pairingCodeIssuedAt = null;
+      removeQrPng();
+      status.state = "open";
+      status.connectedSince = new Date();
+      status.lastError = null;
+      status.reconnectAttempts = 0;
+      for (const resolve of openWaiters) resolve(current);
+      openWaiters.clear();
+    } else if (connection === "close") {
+      const statusCode = (lastDisconnect?.error as any)?.output?.statusCode;
+      status.connectedSince = null;
+      status.lastDisconnectAt = lastDisconnect?.date ?? new Date();
+      status.lastError = `${
+        DisconnectReason[statusCode as number] || "Unknown"
+      }: ${lastDisconnect?.error?.message ?? "connection closed"}`;
+
+      if (statusCode === DisconnectReason.loggedOut) {
+        status.state = "logged_out";
+        logger.error(
+          "Connection closed: Logged Out. Please delete auth_info and restart."
+        );
+        return;
+      }
+      status.state = "closed";
+      scheduleReconnect();
+    }
+  };
+
+  const connect = () => {
+    stopProcessing?.();
+    status.state = "connecting";
+    // Codes are bound to the socket that requested them
+    login.qr = null;
+    login.pairingCode = null;
+    login.pairingCodeIssuedAt = null;
+
+    const current = makeWASocket({
+      version,
+      logger,
+      auth: {
+        creds: state.creds,
+        keys: makeCacheableSignalKeyStore(state.keys, logger),
+      },
+      generateHighQualityLinkPreview: true,
+      // Served from the groups tables, which the group events keep current
+      cachedGroupMetadata: async (jid: string) => {
+        const group = getGroup(jid);
+        return group?.participants?.length ? toGroupMetadata(group) : undefined;
+      },
+    });
+    sock = current;
+
+    stopProcessing = registerEventHandlers(
+      current,
+      logger,
+      saveCreds,
+      (update) => onConnectionUpdate(current, update),
+      (chatJids) => {
+        for (const listener of messageListeners) {
+          try {
+            listener(chatJids);
+          } catch (error) {
+            logger.error({ err: error }, "Message listener failed");
+          }
         }
-        // otherwise keep waiting — Baileys will reconnect automatically
+      },
+    );
+  };
+
+  connect();
+
+  return {
+    getSocket: () => sock,
+    waitForSocket: (timeoutMs = SOCKET_WAIT_TIMEOUT_MS) => {
+      if (sock && status.state === "open" && sock.user) {
+        return Promise.resolve(sock);
       }
-    };
-    sock.ev.on("connection.update", onUpdate);
-  });
+      if (status.state === "logged_out") {
+        return Promise.resolve(null);
+      }
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          openWaiters.delete(onOpen);
+          resolve(null);
+        }, timeoutMs);
+        const onOpen = (opened: WhatsAppSocket) => {
+          clearTimeout(timer);
+          resolve(opened);
+        };
+        openWaiters.add(onOpen);
+      });
+    },
+    onMessagesStored: (listener) => {
+      messageListeners.add(listener);
+      return () => messageListeners.delete(listener);
+    },
+    getLoginState: () => ({
+      // creds.me is also set while a pairing code is pending; the signed
+      // device identity only exists after a successful link
+      paired: Boolean(state.creds.account),
+      state: status.state,
+      qr: login.qr,
+      qr_updated_at: login.qrUpdatedAt?.toISOString() ?? null,
+      qr_png_path: login.qrPngPath,
+      pairing_phone: login.pairingPhone,
+      pairing_code: login.pairingCode,
+      pairing_code_issued_at: login.pairingCodeIssuedAt?.toISOString() ?? null,
+    }),
+    requestPairingCode: async (phoneNumber) => {
+      if (state.creds.account) {
+        throw new Error("This server is already linked to a WhatsApp account.");
+      }
+      const phone = normalizePairingPhone(phoneNumber);
+      if (login.pairingCode && login.pairingPhone === phone) {
+        return login.pairingCode;
+      }
+      if (!login.qr) {
+        // The socket accepts pairing requests once it reaches the QR stage
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            pairingReadyWaiters.delete(onReady);
+            reject(new Error("Timed out waiting for WhatsApp to be ready for pairing. Try again."));
+          }, SOCKET_WAIT_TIMEOUT_MS);
+          const onReady = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+          pairingReadyWaiters.add(onReady);
+        });
+      }
+      if (!sock) {
+        throw new Error("WhatsApp socket is not available.");
+      }
+      // Set after the wait so onQr doesn't issue a second code concurrently;
+      // later reconnects then re-issue for this number automatically
+      login.pairingPhone = phone;
+      return issuePairingCode(sock, phone);
+    },
+    getStatus: () => ({
+      state: status.state,
+      user: sock?.user
+        ? { jid: getSelfJid(sock), name: sock.user.name ?? null }
+        : null,
+      connected_since: status.connectedSince?.toISOString() ?? null,
+      uptime_seconds: status.connectedSince
+        ? Math.round((Date.now() - status.connectedSince.getTime()) / 1000)
+        : null,
+      last_disconnect_at: status.lastDisconnectAt?.toISOString() ?? null,
+      last_error: status.lastError,
+      reconnect_attempts: status.reconnectAttempts,
+      next_retry_at: status.nextRetryAt?.toISOString() ?? null,
+    }),
+  };
+}
 
-  sock.ev.process(async (events) => {
+/**
+ * Wires every Baileys event we persist for one socket. Connection lifecycle
+ * changes are forwarded to `onConnectionUpdate` so the connection manager can
+ * decide whether to reconnect, and the chats `messages.upsert` stored new
+ * messages for to `onMessagesStored`. Returns a function that detaches the
+ * handlers.
+ */
+function registerEventHandlers(
+  sock: WhatsAppSocket,
+  logger: P.Logger,
+  saveCreds: () => Promise<void>,
+  onConnectionUpdate: (update: Partial<BaileysConnectionState>) => void,
+  onMessagesStored: (chatJids: string[]) => void,
+): () => void {
+  return sock.ev.process(async (events) => {
     if (events["connection.update"]) {
       const update = events["connection.update"];
-      const { connection, lastDisconnect, qr } = update;
-
-      if (qr) {
-        logger.info(
-          { qrCodeData: qr },
-          "QR Code Received. Copy the qrCodeData string and use a QR code generator (e.g., online website) to display and scan it with your WhatsApp app."
-        );
-        // for now we roughly open the QR code in a browser
-        await open(`https://quickchart.io/qr?text=${encodeURIComponent(qr)}`);
-      }
+      const { connection, lastDisconnect } = update;
 
       if (connection === "close") {
         const statusCode = (lastDisconnect?.error as any)?.output?.statusCode;
@@ -162,15 +958,6 @@ export async function startWhatsAppConnection(
           }`,
           lastDisconnect?.error
         );
-        if (statusCode !== DisconnectReason.loggedOut) {
-          logger.info("Reconnecting...");
-          startWhatsAppConnection(logger);
-        } else {
-          logger.error(
-            "Connection closed: Logged Out. Please delete auth_info and restart."
-          );
-          process.exit(1);
-        }
       } else if (connection === "open") {
         logger.info(`Connection opened. WA user: ${sock.user?.name}`);
         console.log("Logged as", sock.user?.name);
@@ -181,7 +968,10 @@ export async function startWhatsAppConnection(
             logger.info(`Auto-synced ${count} contact names on connection open.`);
           }
         }, 3000);
+        void syncAllGroups(logger, sock);
       }
+
+      onConnectionUpdate(update);
     }
 
     if (events["creds.update"]) {
@@ -204,28 +994,58 @@ export async function startWhatsAppConnection(
       );
 
       // Sync contact names from history
-      let contactCount = 0;
-      contacts.forEach((contact) => {
-        const name =
-          contact.name || contact.notify || contact.verifiedName || null;
-        if (contact.id && name) {
-          storeChat({ jid: contact.id, name });
-          contactCount++;
-        }
-      });
+      const contactCount = storeBaileysContacts(contacts, "history");
       if (contactCount > 0) {
         logger.info(`Synced ${contactCount} contact names from history.`);
       }
 
       let storedCount = 0;
+      const selfJid = getSelfJid(sock);
       messages.forEach((msg) => {
+        if (
+          applyProtocolMessage(logger, msg) ||
+          applyReactionMessage(msg, selfJid) ||
+          applyPollUpdateMessage(logger, sock, msg)
+        ) {
+          return;
+        }
         const parsed = parseMessageForDb(msg);
         if (parsed) {
           storeMessage(parsed);
           storedCount++;
+          // History sync delivers reactions aggregated on the message itself
+          for (const reaction of msg.reactions ?? []) {
+            if (reaction.key) {
+              recordReaction(parsed.chat_jid, parsed.id, reactorJidFor(reaction.key, selfJid), reaction);
+            }
+          }
+          recordPollCreation(msg, selfJid);
+          // ...and poll votes already decrypted
+          const poll = msg.pollUpdates?.length ? getPoll(parsed.id, parsed.chat_jid) : null;
+          for (const pollUpdate of poll ? msg.pollUpdates! : []) {
+            if (pollUpdate.pollUpdateMessageKey && pollUpdate.vote) {
+              recordPollVote(
+                poll!,
+                reactorJidFor(pollUpdate.pollUpdateMessageKey, selfJid),
+                pollUpdate.vote.selectedOptions ?? [],
+                pollUpdate.senderTimestampMs
+                  ? new Date(Number(pollUpdate.senderTimestampMs))
+                  : parsed.timestamp,
+              );
+            }
+          }
         }
       });
       logger.info(`Stored ${storedCount} messages from history sync.`);
+
+      // Unread counts locate the last-read marker, so they wait for the messages
+      for (const chat of chats) {
+        if (!chat.id) continue;
+        if (typeof chat.unreadCount === "number" && chat.unreadCount >= 0) {
+          setChatUnreadCount(chat.id, chat.unreadCount);
+        }
+        if (chat.muteEndTime != null) setChatMutedUntil(chat.id, toMutedUntil(chat.muteEndTime));
+      }
     }
 
     if (events["messages.upsert"]) {
@@ -236,7 +1056,16 @@ export async function startWhatsAppConnection(
       );
 
       if (type === "notify" || type === "append") {
+        const selfJid = getSelfJid(sock);
+        const storedChats = new Set<string>();
         for (const msg of messages) {
+          if (
+            applyProtocolMessage(logger, msg) ||
+            applyReactionMessage(msg, selfJid) ||
+            applyPollUpdateMessage(logger, sock, msg)
+          ) {
+            continue;
+          }
           const parsed = parseMessageForDb(msg);
           if (parsed) {
             logger.info(
@@ -249,6 +1078,12 @@ export async function startWhatsAppConnection(
               `Storing message: ${parsed.content.substring(0, 50)}...`
             );
             storeMessage(parsed);
+            recordPollCreation(msg, selfJid);
+            storedChats.add(parsed.chat_jid);
+            // Writing in a chat reads it, as on the phone
+            if (type === "notify" && parsed.is_from_me) {
+              markChatRead(parsed.chat_jid, parsed.timestamp);
+            }
           } else {
             logger.warn(
               { msgId: msg.key?.id, chatId: msg.key?.remoteJid },
@@ -256,6 +1091,61 @@ export async function startWhatsAppConnection(
             );
           }
         }
+        if (storedChats.size) onMessagesStored([...storedChats]);
+      }
+    }
+
+    if (events["messages.update"]) {
+      for (const { key, update } of events["messages.update"]) {
+        if (!key.id || !key.remoteJid) continue;
+
+        if (update.status != null) {
+          applyStatusUpdate(key, update.status);
+        }
+
+        if (update.messageStubType === WAMessageStubType.REVOKE && update.message === null) {
+          if (markMessageDeleted(key.id, key.remoteJid, new Date())) {
+            logger.info({ msgId: key.id, chatId: key.remoteJid }, "Message revoked by sender");
+          }
+        }
+
+        const edited = update.message?.editedMessage?.message;
+        if (edited) {
+          const newContent = extractTextContent(normalizeMessageContent(edited));
+          const editedAt = update.messageTimestamp
+            ? toDateFromSeconds(update.messageTimestamp)
+            : new Date();
+          if (newContent && applyMessageEdit(key.id, key.remoteJid, newContent, editedAt)) {
+            logger.info({ msgId: key.id, chatId: key.remoteJid }, "Message edited by sender");
+          }
+        }
+      }
+    }
+
+    if (events["message-receipt.update"]) {
+      for (const { key, receipt } of events["message-receipt.update"]) {
+        if (!key.id || !key.remoteJid || !receipt.userJid) continue;
+        const toDate = (ts: typeof receipt.receiptTimestamp) =>
+          ts ? toDateFromSeconds(ts) : null;
+        const readAt = toDate(receipt.readTimestamp);
+        const playedAt = toDate(receipt.playedTimestamp);
+        storeMessageReceipt({
+          message_id: key.id,
+          chat_jid: key.remoteJid,
+          recipient_jid: jidNormalizedUser(receipt.userJid),
+          // A read or played receipt implies delivery even if that one was missed
+          delivered_at: toDate(receipt.receiptTimestamp) ?? readAt ?? playedAt,
+          read_at: readAt ?? playedAt,
+          played_at: playedAt,
+        });
+      }
+    }
+
+    if (events["messages.reaction"]) {
+      const selfJid = getSelfJid(sock);
+      for (const { key, reaction } of events["messages.reaction"]) {
+        if (!reaction.key) continue;
+        recordReaction(key.remoteJid, key.id, reactorJidFor(reaction.key, selfJid), reaction);
       }
     }
 
@@ -272,41 +1162,69 @@ export async function startWhatsAppConnection(
             ? new Date(Number(chatUpdate.conversationTimestamp) * 1000)
             : undefined,
         });
+        // Positive counts are new messages; 0 and -1 come from marking the
+        // chat read or unread on another device
+        if (typeof chatUpdate.unreadCount === "number") {
+          if (chatUpdate.unreadCount > 0) incrementChatUnread(chatUpdate.id!, chatUpdate.unreadCount);
+          else if (chatUpdate.unreadCount === 0) markChatRead(chatUpdate.id!);
+          else markChatUnread(chatUpdate.id!);
+        }
+        if (chatUpdate.muteEndTime !== undefined) {
+          setChatMutedUntil(chatUpdate.id!, toMutedUntil(chatUpdate.muteEndTime));
+        }
       }
     }
 
     if (events["contacts.upsert"]) {
-      let synced = 0;
-      for (const contact of events["contacts.upsert"]) {
-        const name =
-          contact.name || contact.notify || contact.verifiedName || null;
-        if (contact.id && name) {
-          storeChat({ jid: contact.id, name });
-          synced++;
-        }
-      }
+      const synced = storeBaileysContacts(events["contacts.upsert"], "contacts.upsert");
       if (synced > 0) {
         logger.info(`Synced ${synced} contacts from contacts.upsert.`);
       }
     }
 
-    if (events["contacts.update"]) {
-      let updated = 0;
-      for (const contact of events["contacts.update"]) {
-        const name =
-          contact.name || contact.notify || contact.verifiedName || null;
-        if (contact.id && name) {
-          storeChat({ jid: contact.id, name });
-          updated++;
+    if (events["groups.upsert"]) {
+      for (const metadata of events["groups.upsert"]) {
+        storeGroup(toDbGroup(metadata));
+      }
+      logger.info({ count: events["groups.upsert"].length }, "Stored groups from groups.upsert");
+    }
+
+    if (events["groups.update"]) {
+      for (const update of events["groups.update"]) {
+        if (update.id) {
+          storeGroup(toDbGroup({ ...update, id: update.id }));
         }
       }
+    }
+
+    if (events["group-participants.update"]) {
+      const { id, participants, action } = events["group-participants.update"];
+      const selfJid = getSelfJid(sock);
+      const selfLid = sock.user?.lid ? jidNormalizedUser(sock.user.lid) : null;
+      const includesSelf = participants.some((p) =>
+        [p.id, p.phoneNumber, p.lid].some((jid) => jid && [selfJid, selfLid].includes(jidNormalizedUser(jid))),
+      );
+      if (action === "remove" && includesSelf) {
+        removeGroup(id);
+        logger.info({ groupJid: id }, "Removed from group; forgot its metadata");
+      } else if (action === "add" && includesSelf) {
+        // Added to a new group: fetch its full metadata
+        sock.groupMetadata(id).then(
+          (metadata) => storeGroup(toDbGroup(metadata)),
+          (error) => logger.warn({ err: error, groupJid: id }, "Failed to fetch metadata of joined group"),
+        );
+      } else {
+        applyGroupParticipantsChange(id, participants.map(toGroupMember), action);
+      }
+    }
+
+    if (events["contacts.update"]) {
+      const updated = storeBaileysContacts(events["contacts.update"], "contacts.update");
       if (updated > 0) {
         logger.info(`Updated ${updated} contact names from contacts.update.`);
       }
     }
   });
-
-  return sock;
 }
 
 function getMimetype(filePath: string): string {
@@ -337,6 +1255,8 @@ function getMimetype(filePath: string): string {
   return mimes[ext] || "application/octet-stream";
 }
 
+// The send helpers throw on failure so the outbox (outbox.ts) can decide
+// whether to retry; tools queue through the outbox rather than calling these.
 export async function sendWhatsAppMessage(
   logger: P.Logger,
   sock: WhatsAppSocket | null,
@@ -344,18 +1264,13 @@ export async function sendWhatsAppMessage(
   text: string
 ): Promise<WAMessage | void> {
   if (!sock || !sock.user) {
-    logger.error(
-      "Cannot send message: WhatsApp socket not connected or initialized."
-    );
-    return;
+    throw new Error("Cannot send message: WhatsApp socket not connected or initialized.");
   }
   if (!recipientJid) {
-    logger.error("Cannot send message: Recipient JID is missing.");
-    return;
+    throw new Error("Cannot send message: Recipient JID is missing.");
   }
   if (!text) {
-    logger.error("Cannot send message: Message text is empty.");
-    return;
+    throw new Error("Cannot send message: Message text is empty.");
   }
 
   // For group JIDs, use as-is; for individual JIDs, normalize
@@ -384,7 +1299,7 @@ export async function sendWhatsAppMessage(
         continue;
       }
       logger.error({ err: error, recipientJid: normalizedJid }, "Failed to send message");
-      return;
+      throw error;
     }
   }
 }
@@ -393,14 +1308,13 @@ export async function sendWhatsAppMedia(
   logger: P.Logger,
   sock: WhatsAppSocket | null,
   recipientJid: string,
-  mediaType: "image" | "video" | "document" | "audio",
+  mediaType: "image" | "video" | "document" | "audio" | "sticker",
   mediaPath: string,
   caption?: string,
   fileName?: string
 ): Promise<WAMessage | void> {
   if (!sock || !sock.user) {
-    logger.error("Cannot send media: WhatsApp socket not connected or initialized.");
-    return;
+    throw new Error("Cannot send media: WhatsApp socket not connected or initialized.");
   }
   try {
     const buffer = fs.readFileSync(mediaPath);
@@ -421,13 +1335,16 @@ export async function sendWhatsAppMedia(
       case "document":
         messageContent = { document: buffer, mimetype, fileName: resolvedFileName, caption };
         break;
+      case "sticker":
+        messageContent = { sticker: buffer, mimetype: "image/webp" };
+        break;
     }
     const result = await sock.sendMessage(normalizedJid, messageContent);
     logger.info({ msgId: result?.key.id }, "Media sent successfully");
     return result;
   } catch (error) {
     logger.error({ err: error, recipientJid }, "Failed to send media");
-    return;
+    throw error;
   }
 }
 
@@ -442,8 +1359,7 @@ export async function replyToWhatsAppMessage(
   replyText: string
 ): Promise<WAMessage | void> {
   if (!sock || !sock.user) {
-    logger.error("Cannot reply: WhatsApp socket not connected or initialized.");
-    return;
+    throw new Error("Cannot reply: WhatsApp socket not connected or initialized.");
   }
   try {
     const normalizedJid = jidNormalizedUser(chatJid);
@@ -465,7 +1381,7 @@ export async function replyToWhatsAppMessage(
     return result;
   } catch (error) {
     logger.error({ err: error, chatJid }, "Failed to send reply");
-    return;
+    throw error;
   }
 }
 
@@ -477,14 +1393,13 @@ export async function sendWhatsAppReaction(
   senderJid: string | null,
   isFromMe: boolean,
   emoji: string
-): Promise<void> {
+): Promise<WAMessage | void> {
   if (!sock || !sock.user) {
-    logger.error("Cannot send reaction: WhatsApp socket not connected or initialized.");
-    return;
+    throw new Error("Cannot send reaction: WhatsApp socket not connected or initialized.");
   }
   try {
     const normalizedJid = jidNormalizedUser(chatJid);
-    await sock.sendMessage(normalizedJid, {
+    const result = await sock.sendMessage(normalizedJid, {
       react: {
         text: emoji,
         key: {
@@ -496,8 +1411,104 @@ export async function sendWhatsAppReaction(
       },
     });
     logger.info({ messageId, emoji }, "Reaction sent successfully");
+    const selfJid = getSelfJid(sock);
+    if (selfJid) {
+      storeReaction({
+        message_id: messageId,
+        chat_jid: chatJid,
+        reactor_jid: selfJid,
+        emoji,
+        timestamp: new Date(),
+      });
+    }
+    return result;
   } catch (error) {
     logger.error({ err: error, chatJid, messageId }, "Failed to send reaction");
+    throw error;
+  }
+}
+
+export async function sendWhatsAppLocation(
+  logger: P.Logger,
+  sock: WhatsAppSocket | null,
+  chatJid: string,
+  latitude: number,
+  longitude: number,
+  name?: string,
+  address?: string
+): Promise<WAMessage | void> {
+  if (!sock || !sock.user) {
+    throw new Error("Cannot send location: WhatsApp socket not connected or initialized.");
+  }
+  try {
+    const normalizedJid = isJidGroup(chatJid) ? chatJid : jidNormalizedUser(chatJid);
+    const result = await sock.sendMessage(normalizedJid, {
+      location: { degreesLatitude: latitude, degreesLongitude: longitude, name, address },
+    });
+    logger.info({ msgId: result?.key.id }, "Location sent successfully");
+    return result;
+  } catch (error) {
+    logger.error({ err: error, chatJid }, "Failed to send location");
+    throw error;
+  }
+}
+
+/** Sends one or more contact cards; several are grouped into one message. */
+export async function sendWhatsAppContacts(
+  logger: P.Logger,
+  sock: WhatsAppSocket | null,
+  chatJid: string,
+  contacts: { display_name: string; vcard: string }[]
+): Promise<WAMessage | void> {
+  if (!sock || !sock.user) {
+    throw new Error("Cannot send contacts: WhatsApp socket not connected or initialized.");
+  }
+  try {
+    const normalizedJid = isJidGroup(chatJid) ? chatJid : jidNormalizedUser(chatJid);
+    const result = await sock.sendMessage(normalizedJid, {
+      contacts: {
+        displayName:
+          contacts.length === 1 ? contacts[0].display_name : `${contacts.length} contacts`,
+        contacts: contacts.map((contact) => ({
+          displayName: contact.display_name,
+          vcard: contact.vcard,
+        })),
+      },
+    });
+    logger.info({ msgId: result?.key.id, count: contacts.length }, "Contacts sent successfully");
+    return result;
+  } catch (error) {
+    logger.error({ err: error, chatJid }, "Failed to send contacts");
+    throw error;
+  }
+}
+
+/** Sends a poll; `selectableCount` 1 is single choice, 0 allows any number. */
+export async function sendWhatsAppPoll(
+  logger: P.Logger,
+  sock: WhatsAppSocket | null,
+  chatJid: string,
+  question: string,
+  options: string[],
+  selectableCount: number
+): Promise<WAMessage | void> {
+  if (!sock || !sock.user) {
+    throw new Error("Cannot send poll: WhatsApp socket not connected or initialized.");
+  }
+  try {
+    const normalizedJid = isJidGroup(chatJid) ? chatJid : jidNormalizedUser(chatJid);
+    const result = await sock.sendMessage(normalizedJid, {
+      poll: { name: question, values: options, selectableCount },
+    });
+    logger.info({ msgId: result?.key.id }, "Poll sent successfully");
+    // Keep the poll secret now rather than relying on the echo of our own message
+    if (result) {
+      recordPollCreation(result, getSelfJid(sock));
+    }
+    return result;
+  } catch (error) {
+    logger.error({ err: error, chatJid }, "Failed to send poll");
+    throw error;
   }
 }
 
@@ -510,8 +1521,7 @@ export async function markWhatsAppChatAsRead(
   lastMessageSender: string | null
 ): Promise<void> {
   if (!sock || !sock.user) {
-    logger.error("Cannot mark as read: WhatsApp socket not connected or initialized.");
-    return;
+    throw new Error("Cannot mark as read: WhatsApp socket not connected or initialized.");
   }
   try {
     const normalizedJid = jidNormalizedUser(chatJid);
@@ -524,12 +1534,13 @@ export async function markWhatsAppChatAsRead(
     logger.info({ chatJid }, "Chat marked as read");
   } catch (error) {
     logger.error({ err: error, chatJid }, "Failed to mark chat as read");
+    throw error;
   }
 }
 
 /**
- * Reads Baileys' in-memory contacts map (sock.contacts) and persists any display
- * names it finds into our SQLite chats table.  This is the most reliable way to
+ * Reads Baileys' in-memory contacts map (sock.contacts) and persists the
+ * contacts it finds into our SQLite contacts table.  This is the most reliable way to
  * populate human-readable names like "Dady" because WhatsApp delivers address-book
  * names through the contacts map rather than through regular message events.
  *
@@ -543,7 +1554,7 @@ export function syncContactsFromSock(
   try {
     // Baileys stores a contacts dictionary on the socket as a non-typed property
     const contactsMap = (sock as any).contacts as
-      | Record<string, { name?: string; notify?: string; verifiedName?: string }>
+      | Record<string, Partial<BaileysContact>>
       | undefined;
 
     if (!contactsMap || typeof contactsMap !== "object") {
@@ -551,15 +1562,10 @@ export function syncContactsFromSock(
       return 0;
     }
 
-    let synced = 0;
-    for (const [jid, contact] of Object.entries(contactsMap)) {
-      const name =
-        contact.name || contact.notify || contact.verifiedName || null;
-      if (jid && name) {
-        storeChat({ jid, name });
-        synced++;
-      }
-    }
+    const synced = storeBaileysContacts(
+      Object.entries(contactsMap).map(([jid, contact]) => ({ ...contact, id: contact.id ?? jid })),
+      "sync_contacts",
+    );
     logger.info(`syncContactsFromSock: wrote ${synced} contact names to DB.`);
     return synced;
   } catch (error) {
@@ -579,6 +1585,7 @@ export async function getWhatsAppGroupMembers(
   }
   try {
     const metadata = await sock.groupMetadata(groupJid);
+    storeGroup(toDbGroup(metadata));
     return metadata.participants.map((p) => ({
       jid: p.id,
       phone: p.id.split("@")[0],
@@ -590,3 +1597,127 @@ export async function getWhatsAppGroupMembers(
     return [];
   }
 }
+
+// Group administration. Unlike getWhatsAppGroupMembers these throw, so tools
+// can report WhatsApp's reason (e.g. not an admin) instead of an empty result.
+
+export type GroupParticipantAction = "add" | "remove" | "promote" | "demote";
+
+export async function createWhatsAppGroup(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  subject: string,
+  participantJids: string[]
+): Promise<{ jid: string; subject: string; participants: string[] }> {
+  try {
+    const metadata = await sock.groupCreate(subject, participantJids);
+    // Make the new group resolvable by name straight away
+    storeGroup(toDbGroup(metadata));
+    logger.info({ groupJid: metadata.id }, "Group created");
+    return {
+      jid: metadata.id,
+      subject: metadata.subject,
+      participants: metadata.participants.map((p) => p.id),
+    };
+  } catch (error) {
+    logger.error({ err: error, subject }, "Failed to create group");
+    throw error;
+  }
+}
+
+/**
+ * Applies `action` to each participant. WhatsApp answers per participant with
+ * an HTTP-like status: 200 done, 403 not permitted (e.g. privacy settings
+ * block adding; an invite link is needed), 408 recently left, 409 already in
+ * (or not in) the group.
+ */
+export async function updateWhatsAppGroupParticipants(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  groupJid: string,
+  participantJids: string[],
+  action: GroupParticipantAction
+): Promise<{ jid: string; status: string }[]> {
+  try {
+    const results = await sock.groupParticipantsUpdate(groupJid, participantJids, action);
+    logger.info({ groupJid, action, results: results.map((r) => r.status) }, "Group participants updated");
+    return results.map((r, i) => ({ jid: r.jid ?? participantJids[i], status: r.status }));
+  } catch (error) {
+    logger.error({ err: error, groupJid, action }, "Failed to update group participants");
+    throw error;
+  }
+}
+
+export type GroupSettingsChange = {
+  subject?: string;
+  /** An empty string clears the description. */
+  description?: string;
+  /** Only admins can send messages. */
+  announcement_only?: boolean;
+  /** Only admins can edit the group info. */
+  locked?: boolean;
+};
+
+export async function updateWhatsAppGroupSettings(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  groupJid: string,
+  change: GroupSettingsChange
+): Promise<void> {
+  try {
+    if (change.subject !== undefined) {
+      await sock.groupUpdateSubject(groupJid, change.subject);
+      storeGroup({ jid: groupJid, subject: change.subject });
+    }
+    if (change.description !== undefined) {
+      await sock.groupUpdateDescription(groupJid, change.description || undefined);
+    }
+    if (change.announcement_only !== undefined) {
+      await sock.groupSettingUpdate(groupJid, change.announcement_only ? "announcement" : "not_announcement");
+    }
+    if (change.locked !== undefined) {
+      await sock.groupSettingUpdate(groupJid, change.locked ? "locked" : "unlocked");
+    }
+    logger.info({ groupJid, change: Object.keys(change) }, "Group settings updated");
+  } catch (error) {
+    logger.error({ err: error, groupJid }, "Failed to update group settings");
+    throw error;
+  }
+}
+
+/** Returns the group's invite link; `revoke` first invalidates the current one. */
+export async function getWhatsAppGroupInviteLink(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  groupJid: string,
+  revoke: boolean
+): Promise<string> {
+  try {
+    const code = revoke
+      ? await sock.groupRevokeInvite(groupJid)
+      : await sock.groupInviteCode(groupJid);
+    if (!code) {
+      throw new Error("WhatsApp returned no invite code.");
+    }
+    if (revoke) logger.info({ groupJid }, "Group invite link revoked");
+    return `https://chat.whatsapp.com/${code}`;
+  } catch (error) {
+    logger.error({ err: error, groupJid, revoke }, "Failed to get group invite link");
+    throw error;
+  }
+}
+
+export async function leaveWhatsAppGroup(
+  logger: P.Logger,
+  sock: WhatsAppSocket,
+  groupJid: string
+): Promise<void> {
+  try {
+    await sock.groupLeave(groupJid);
+    removeGroup(groupJid);
+    logger.info({ groupJid }, "Left group");
+  } catch (error) {
+    logger.error({ err: error, groupJid }, "Failed to leave group");
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import zlib from "node:zlib";
+
+import { readZip } from "./zip.ts";
+
+type TestEntry = {
+  name: string;
+  content: Buffer;
+  deflate?: boolean;
+  /** Uncompressed size to claim in the headers, if not the real one. */
+  size?: number;
+  flags?: number;
+};
+
+// Builds an archive the way zip tools lay it out: local headers and data,
+// then the central directory, then the end record. CRCs are left at 0
+// because readZip doesn't check them.
+function buildZip(entries: TestEntry[], comment = ""): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = entry.deflate ? zlib.deflateRawSync(entry.content) : entry.content;
+    const size = entry.size ?? entry.content.length;
+    const flags = entry.flags ?? 0x800;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(Buffer.byteLength(comment), 20);
+  return Buffer.concat([...locals, directory, end, Buffer.from(comment)]);
+}
+
+describe("readZip", () => {
+  it("lists and reads stored and deflated entries, skipping directories", () => {
+    const chat = Buffer.from("31/12/2023, 21:41 - Alice: hi\n".repeat(100));
+    const photo = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+    const entries = readZip(
+      buildZip(
+        [
+          { name: "media/", content: Buffer.alloc(0) },
+          { name: "_chat.txt", content: chat, deflate: true },
+          { name: "media/Föto.jpg", content: photo },
+        ],
+        "archive comment",
+      ),
+    );
+    assert.deepEqual(entries.map(({ name, size }) => ({ name, size })), [
+      { name: "_chat.txt", size: chat.length },
+      { name: "media/Föto.jpg", size: photo.length },
+    ]);
+    assert.deepEqual(entries[0].read(), chat);
+    assert.deepEqual(entries[1].read(), photo);
+  });
+
+  it("rejects files that aren't ZIP archives", () => {
+    assert.throws(() => readZip(Buffer.from("not a zip archive at all, just text")), /Not a ZIP archive/);
+  });
+
+  it("refuses to inflate past the size in the header", () => {
+    const [entry] = readZip(
+      buildZip([{ name: "bomb.txt", content: Buffer.alloc(1_000_000), deflate: true, size: 100 }]),
+    );
+    assert.throws(() => entry.read(), /larger than its ZIP header says/);
+  });
+
+  it("rejects entries shorter than the size in the header", () => {
+    const [stored, deflated] = readZip(
+      buildZip([
+        { name: "stored.txt", content: Buffer.from("short"), size: 50 },
+        { name: "deflated.txt", content: Buffer.from("short"), deflate: true, size: 50 },
+      ]),
+    );
+    assert.throws(() => stored.read(), /does not match the size/);
+    assert.throws(() => deflated.read(), /does not match the size/);
+  });
+
+  it("refuses encrypted entries", () => {
+    const [entry] = readZip(buildZip([{ name: "secret.txt", content: Buffer.from("x"), flags: 0x801 }]));
+    assert.throws(() => entry.read(), /encrypted/);
+  });
+});
@@ -0,0 +1,80 @@
+import zlib from "node:zlib";
+
+// Minimal ZIP reader: enough for the archives WhatsApp's "Export chat"
+// produces (stored or deflated entries, no ZIP64, no encryption).
+
+export type ZipEntry = {
+  name: string;
+  size: number;
+  read(): Buffer;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Lists the files in a ZIP archive. Directories are left out. */
+export function readZip(archive: Buffer): ZipEntry[] {
+  // The end record is at least 22 bytes and may be followed by a comment
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive");
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    entries.push({
+      name,
+      size,
+      read: () => {
+        if (flags & 0x1) throw new Error(`${name} is encrypted`);
+        if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP entry ${name}`);
+        }
+        const start =
+          localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(start, start + compressedSize);
+        let content: Buffer;
+        if (method === 0) {
+          content = Buffer.from(data);
+        } else if (method === 8) {
+          // Never inflate past the size the header promises
+          try {
+            content = zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+          } catch (error: any) {
+            if (error.code === "ERR_BUFFER_TOO_LARGE") throw new Error(`${name} is larger than its ZIP header says`);
+            throw error;
+          }
+        } else {
+          throw new Error(`${name} uses unsupported compression method ${method}`);
+        }
+        if (content.length !== size) throw new Error(`${name} does not match the size in its ZIP header`);
+        return content;
+      },
+    });
+  }
+  return entries;
+}